@@ -0,0 +1,76 @@
+import { AbortError } from "./errors";
+import { addUsage } from "./pricing";
+import type { BatchItemResult, BatchOptions, BatchResult, TokenUsage } from "./types";
+
+const DEFAULT_CONCURRENCY = 5;
+
+interface UsageCarrier {
+  tokensUsed?: number;
+  usage?: TokenUsage;
+  cached?: boolean;
+}
+
+// Runs fn over every item with at most `concurrency` calls in flight; failures never reject the batch
+export async function runBatch<TInput, TResult>(
+  inputs: TInput[],
+  fn: (input: TInput, index: number) => Promise<TResult>,
+  options?: BatchOptions
+): Promise<BatchResult<TResult>> {
+  const concurrency = Math.max(1, options?.concurrency ?? DEFAULT_CONCURRENCY);
+  const items: BatchItemResult<TResult>[] = new Array(inputs.length);
+  const progress = { total: inputs.length, completed: 0, succeeded: 0, failed: 0 };
+  let tokensUsed: number | undefined;
+  let usage: TokenUsage | undefined;
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < inputs.length) {
+      const index = next++;
+      try {
+        // Items that have not started yet fail fast once the batch is aborted
+        if (options?.signal?.aborted) {
+          throw new AbortError();
+        }
+        const value = await fn(inputs[index], index);
+        items[index] = { index, ok: true, value };
+        progress.succeeded++;
+
+        const carrier = value as UsageCarrier | undefined;
+        if (carrier && typeof carrier === "object" && !carrier.cached) {
+          if (carrier.tokensUsed !== undefined) {
+            tokensUsed = (tokensUsed || 0) + carrier.tokensUsed;
+          }
+          usage = addUsage(usage, carrier.usage);
+        }
+      } catch (error: any) {
+        items[index] = {
+          index,
+          ok: false,
+          error: error instanceof Error ? error : new Error(String(error)),
+        };
+        progress.failed++;
+      }
+
+      progress.completed++;
+      if (options?.onProgress) {
+        try {
+          options.onProgress({ ...progress });
+        } catch (error) {
+          // Ignore callback errors
+        }
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, inputs.length) }, () => worker())
+  );
+
+  return {
+    items,
+    succeeded: progress.succeeded,
+    failed: progress.failed,
+    tokensUsed,
+    usage,
+  };
+}
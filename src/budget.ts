@@ -0,0 +1,138 @@
+import { BudgetExceededError } from "./errors";
+import type { BudgetConfig, BudgetLimit, BudgetThresholdEvent, BudgetWindow } from "./types";
+
+const MINUTE_MS = 60_000;
+
+interface Spend {
+  tokens: number;
+  cost: number;
+}
+
+// Projected spend held for a request that is still in flight
+export type BudgetReservation = Readonly<Spend>;
+
+function addSpend(a: Spend, b: Spend): Spend {
+  return { tokens: a.tokens + b.tokens, cost: a.cost + b.cost };
+}
+
+export class BudgetTracker {
+  private lifetime: Spend = { tokens: 0, cost: 0 };
+  private recent: Array<Spend & { time: number }> = [];
+  private reservations = new Set<BudgetReservation>();
+
+  constructor(
+    private readonly config: BudgetConfig,
+    private readonly provider?: string
+  ) {}
+
+  // Rejects a request whose projected spend would exceed any limit, counting requests
+  // still in flight, and otherwise reserves that spend until record() or release()
+  check(projected: Spend): BudgetReservation {
+    const reserved = this.reservedSpend();
+    this.assertWithin("perRequest", this.config.perRequest, { tokens: 0, cost: 0 }, projected);
+    this.assertWithin(
+      "perMinute",
+      this.config.perMinute,
+      addSpend(this.minuteSpend(), reserved),
+      projected
+    );
+    this.assertWithin("lifetime", this.config.lifetime, addSpend(this.lifetime, reserved), projected);
+
+    const reservation: BudgetReservation = { ...projected };
+    this.reservations.add(reservation);
+    return reservation;
+  }
+
+  // Frees a reservation whose request failed; releasing twice is harmless
+  release(reservation: BudgetReservation | undefined): void {
+    if (reservation) this.reservations.delete(reservation);
+  }
+
+  // Records actual spend in place of the reservation and returns the soft thresholds it crossed
+  record(actual: Spend, reservation?: BudgetReservation): BudgetThresholdEvent[] {
+    this.release(reservation);
+    const beforeMinute = this.minuteSpend();
+    const beforeLifetime = { ...this.lifetime };
+
+    this.recent.push({ ...actual, time: Date.now() });
+    this.lifetime.tokens += actual.tokens;
+    this.lifetime.cost += actual.cost;
+
+    return [
+      ...this.crossed("perMinute", this.config.perMinute, beforeMinute, this.minuteSpend()),
+      ...this.crossed("lifetime", this.config.lifetime, beforeLifetime, this.lifetime),
+    ];
+  }
+
+  private reservedSpend(): Spend {
+    let total: Spend = { tokens: 0, cost: 0 };
+    for (const reservation of this.reservations) {
+      total = addSpend(total, reservation);
+    }
+    return total;
+  }
+
+  private minuteSpend(): Spend {
+    const cutoff = Date.now() - MINUTE_MS;
+    this.recent = this.recent.filter((entry) => entry.time > cutoff);
+    return this.recent.reduce(
+      (total, entry) => ({ tokens: total.tokens + entry.tokens, cost: total.cost + entry.cost }),
+      { tokens: 0, cost: 0 }
+    );
+  }
+
+  private assertWithin(
+    window: BudgetWindow,
+    limit: BudgetLimit | undefined,
+    used: Spend,
+    projected: Spend
+  ): void {
+    if (!limit) return;
+
+    if (limit.maxTokens !== undefined && used.tokens + projected.tokens > limit.maxTokens) {
+      throw new BudgetExceededError(
+        `Request would exceed the ${window} token budget (${used.tokens + projected.tokens} > ${limit.maxTokens})`,
+        window,
+        "tokens",
+        limit.maxTokens,
+        used.tokens + projected.tokens,
+        this.provider
+      );
+    }
+    if (limit.maxCost !== undefined && used.cost + projected.cost > limit.maxCost) {
+      throw new BudgetExceededError(
+        `Request would exceed the ${window} cost budget ($${(used.cost + projected.cost).toFixed(6)} > $${limit.maxCost})`,
+        window,
+        "cost",
+        limit.maxCost,
+        used.cost + projected.cost,
+        this.provider
+      );
+    }
+  }
+
+  private crossed(
+    window: BudgetThresholdEvent["window"],
+    limit: BudgetLimit | undefined,
+    before: Spend,
+    after: Spend
+  ): BudgetThresholdEvent[] {
+    if (!limit) return [];
+
+    const threshold = this.config.softThreshold ?? 0.8;
+    const events: BudgetThresholdEvent[] = [];
+    const metrics: Array<["tokens" | "cost", number | undefined]> = [
+      ["tokens", limit.maxTokens],
+      ["cost", limit.maxCost],
+    ];
+
+    for (const [metric, max] of metrics) {
+      if (!max) continue;
+      const ratio = after[metric] / max;
+      if (before[metric] / max < threshold && ratio >= threshold) {
+        events.push({ window, metric, used: after[metric], limit: max, ratio });
+      }
+    }
+    return events;
+  }
+}
@@ -0,0 +1,123 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { CacheStore, ChatPromptInput, ChatResult } from "./types";
+
+interface CacheEntry {
+  value: ChatResult;
+  expiresAt?: number;
+}
+
+function isExpired(entry: CacheEntry): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+}
+
+function toEntry(value: ChatResult, ttl?: number): CacheEntry {
+  return { value, expiresAt: ttl !== undefined ? Date.now() + ttl : undefined };
+}
+
+export function createCacheKey(
+  provider: string,
+  model: string | undefined,
+  input: ChatPromptInput
+): string {
+  const keyData = JSON.stringify({
+    provider,
+    model,
+    messages: input.messages,
+    temperature: input.temperature,
+    maxTokens: input.maxTokens,
+    tools: input.tools,
+    toolChoice: input.toolChoice,
+    responseFormat: input.responseFormat,
+  });
+  return createHash("sha256").update(keyData).digest("hex");
+}
+
+// Evicts the least recently used entry once maxEntries is reached
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  get(key: string): ChatResult | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (isExpired(entry)) return undefined;
+
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: ChatResult, ttl?: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, toEntry(value, ttl));
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// Stores one JSON file per entry, so a cache survives restarts
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly directory: string) {}
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  async get(key: string): Promise<ChatResult | undefined> {
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(this.filePath(key), "utf8"));
+    } catch (error: any) {
+      // Missing or partially written files are cache misses
+      if (error.code === "ENOENT" || error instanceof SyntaxError) return undefined;
+      throw error;
+    }
+
+    if (isExpired(entry)) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: ChatResult, ttl?: number): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.filePath(key), JSON.stringify(toEntry(value, ttl)));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return;
+      throw error;
+    }
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => fs.rm(path.join(this.directory, file), { force: true }))
+    );
+  }
+}
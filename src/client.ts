@@ -1,8 +1,40 @@
-import { OpenAIProvider } from "./providers/openai";
-import { GeminiProvider } from "./providers/gemini";
-import { AIClientError, TimeoutError, RetryError } from "./errors";
+import { getProviderRegistration } from "./providers/registry";
+import {
+  AIClientError,
+  AbortError,
+  TimeoutError,
+  RetryError,
+  SchemaValidationError,
+  PromptInjectionError,
+} from "./errors";
 import { PROMPT_TEMPLATES } from "./prompts/presets";
-import { parseEnvConfig, sleep, isRetryableError } from "./utils";
+import { Conversation } from "./conversation";
+import {
+  getContextLimit,
+  estimateTokens,
+  estimateMessagesTokens,
+  truncateMessages,
+} from "./context";
+import { BudgetTracker } from "./budget";
+import type { BudgetReservation } from "./budget";
+import { MemoryCacheStore, createCacheKey } from "./cache";
+import { runBatch } from "./batch";
+import { ChatStream, StreamAggregator, StreamChannel } from "./stream";
+import { toProviderError } from "./provider-errors";
+import { Redactor, createRedactionMiddleware } from "./redaction";
+import { assessInjectionRisk } from "./injection";
+import { CircuitBreaker, RetryBudget, computeRetryDelay } from "./retry";
+import { RateLimiter, getSharedRateLimiter, parseRateLimitHeaders } from "./rate-limiter";
+import { getTextContent } from "./content";
+import { calculateCost, addUsage, emptyUsageSummary, BATCH_PRICE_MULTIPLIER } from "./pricing";
+import {
+  parseEnvConfig,
+  readApiKey,
+  sleep,
+  isRetryableError,
+  isProviderOutage,
+} from "./utils";
+import { validateSchema, parseJSONResponse } from "./schema";
 import type {
   AIClientConfig,
   LLMProvider,
@@ -28,24 +60,100 @@ import type {
   ClassifySentimentResult,
   CustomPromptOptions,
   CustomPromptResult,
+  DescribeImageOptions,
+  DescribeImageResult,
+  EmbedOptions,
+  EmbedResult,
+  ImageContentPart,
   ChatOptions,
+  ContextManagementReport,
+  ContextWindowOptions,
+  ConversationOptions,
+  GenerateObjectOptions,
+  GenerateObjectResult,
+  JSONSchema,
+  LocalModelInfo,
+  RunnableTool,
+  RunToolsOptions,
+  RunToolsResult,
+  ToolCall,
+  ToolCallResult,
+  ToolDefinition,
+  TokenUsage,
+  UsageSummary,
   RequestHook,
   ResponseHook,
   ErrorHook,
+  Middleware,
+  MiddlewareContext,
+  BudgetHook,
+  FallbackTarget,
+  RetryAttempt,
+  RetryErrorName,
+  CircuitState,
+  RedactionOptions,
+  InjectionGuardOptions,
+  InjectionReport,
+  CacheStore,
+  AbortOptions,
+  RequestOptions,
+  BatchOptions,
+  BatchResult,
+  BatchJob,
+  BatchJobInput,
+  BatchJobOptions,
+  BatchJobResults,
+  WaitForBatchJobOptions,
 } from "./types";
 
+const FINISHED_BATCH_STATUSES: BatchJob["status"][] = ["completed", "failed", "expired", "cancelled"];
+
+// Strips list markers; blank lines yield undefined
+function parseBullet(line: string): string | undefined {
+  const bullet = line.trim().replace(/^[-*•]\s*/, "");
+  return bullet.length > 0 ? bullet : undefined;
+}
+
+interface ProviderTarget {
+  name: string;
+  provider: LLMProvider;
+  model?: string;
+  rateLimiter?: RateLimiter;
+  circuitBreaker?: CircuitBreaker;
+}
+
+// A provider stream that has produced its first event
+interface OpenStream {
+  iterator: AsyncIterator<ChatStreamChunk>;
+  controller: AbortController;
+  release: () => void;
+  first: IteratorResult<ChatStreamChunk>;
+}
+
 export class AIClient {
   private provider: LLMProvider;
+  private providerName: string;
   private config: AIClientConfig;
   private requestHooks: RequestHook[] = [];
   private responseHooks: ResponseHook[] = [];
   private errorHooks: ErrorHook[] = [];
+  private middleware: Middleware[] = [];
+  private tools = new Map<string, RunnableTool>();
+  private usage: UsageSummary = emptyUsageSummary();
+  private budget?: BudgetTracker;
+  private budgetHooks: BudgetHook[] = [];
+  private rateLimiter?: RateLimiter;
+  private fallbacks: ProviderTarget[] = [];
+  private cache?: { store: CacheStore; ttl?: number };
+  private retryBudget?: RetryBudget;
+  private circuitBreaker?: CircuitBreaker;
+  private redaction?: RedactionOptions;
+  // Placeholders of submitted batch jobs, by job ID and then custom ID
+  private batchRedactors = new Map<string, Map<string, Redactor>>();
+  private batchReservations = new Map<string, BudgetReservation>();
+  private recordedBatchJobs = new Set<string>();
 
   constructor(config: AIClientConfig) {
-    if (!config.apiKey) {
-      throw new AIClientError("API key is required");
-    }
-
     this.config = {
       temperature: 0.7,
       maxRetries: 3,
@@ -54,43 +162,140 @@ export class AIClient {
       ...config,
     };
 
-    // Set default model based on provider if not specified
-    if (!this.config.model) {
-      if (this.config.provider === "openai") {
-        this.config.model = "gpt-4o-mini";
-      } else if (this.config.provider === "gemini") {
-        this.config.model = "gemini-pro";
+    if (typeof this.config.provider !== "string") {
+      // Use a provider instance as-is
+      this.provider = this.config.provider;
+      this.providerName = this.provider.name || "custom";
+    } else {
+      const registration = getProviderRegistration(this.config.provider);
+      if (!registration) {
+        throw new AIClientError(`Unsupported provider: ${this.config.provider}`);
+      }
+
+      if (registration.requiresApiKey !== false && !this.config.apiKey) {
+        throw new AIClientError("API key is required");
+      }
+
+      // Set default model based on provider if not specified
+      if (!this.config.model) {
+        this.config.model = registration.defaultModel;
       }
+
+      this.providerName = this.config.provider;
+      this.provider = registration.factory(this.config);
     }
 
-    // Initialize provider
-    if (this.config.provider === "openai") {
-      this.provider = new OpenAIProvider(
-        this.config.apiKey,
-        this.config.model!,
-        this.config.baseUrl
-      );
-    } else if (this.config.provider === "gemini") {
-      this.provider = new GeminiProvider(
-        this.config.apiKey,
-        this.config.model!,
-        this.config.baseUrl
-      );
-    } else {
-      throw new AIClientError(`Unsupported provider: ${this.config.provider}`);
+    if (this.config.budget) {
+      this.budget = new BudgetTracker(this.config.budget, this.providerName);
+    }
+
+    this.rateLimiter =
+      this.config.rateLimit instanceof RateLimiter
+        ? this.config.rateLimit
+        : this.createRateLimiter(this.providerName, this.config.model, this.config.apiKey);
+    this.circuitBreaker = this.createCircuitBreaker();
+    if (this.config.retryPolicy?.budget) {
+      this.retryBudget = new RetryBudget(this.config.retryPolicy.budget);
+    }
+    this.fallbacks = (this.config.fallbacks || []).map((target) => this.createFallback(target));
+
+    if (this.config.cache) {
+      const cacheConfig = this.config.cache === true ? {} : this.config.cache;
+      this.cache = { store: cacheConfig.store ?? new MemoryCacheStore(), ttl: cacheConfig.ttl };
+    }
+
+    if (this.config.redaction) {
+      this.redaction = this.config.redaction === true ? {} : this.config.redaction;
+      // Registered first, so middleware added with use(), hooks and the cache only see redacted input
+      this.middleware.push(createRedactionMiddleware(this.redaction));
+    }
+  }
+
+  private get primaryTarget(): ProviderTarget {
+    return {
+      name: this.providerName,
+      provider: this.provider,
+      model: this.config.model,
+      rateLimiter: this.rateLimiter,
+      circuitBreaker: this.circuitBreaker,
+    };
+  }
+
+  private createCircuitBreaker(): CircuitBreaker | undefined {
+    const options = this.config.retryPolicy?.circuitBreaker;
+    if (!options) return undefined;
+    return new CircuitBreaker(options === true ? {} : options);
+  }
+
+  private createRateLimiter(
+    provider: string,
+    model: string | undefined,
+    apiKey: string | undefined
+  ): RateLimiter | undefined {
+    const options = this.config.rateLimit;
+    if (!options || options instanceof RateLimiter) return undefined;
+    return options.shared === false
+      ? new RateLimiter(options)
+      : getSharedRateLimiter(provider, model, apiKey, options);
+  }
+
+  private createFallback(target: FallbackTarget): ProviderTarget {
+    if (typeof target.provider !== "string") {
+      return {
+        name: target.provider.name || "custom",
+        provider: target.provider,
+        model: target.model,
+        circuitBreaker: this.createCircuitBreaker(),
+      };
+    }
+
+    const name = target.provider;
+    const registration = getProviderRegistration(name);
+    if (!registration) {
+      throw new AIClientError(`Unsupported fallback provider: ${name}`);
     }
+
+    const apiKey =
+      target.apiKey ?? (name === this.providerName ? this.config.apiKey : readApiKey(name));
+    if (registration.requiresApiKey !== false && !apiKey) {
+      throw new AIClientError(`API key is required for fallback provider: ${name}`, name);
+    }
+
+    const model = target.model || registration.defaultModel;
+    return {
+      name,
+      provider: registration.factory({
+        ...this.config,
+        provider: name,
+        apiKey,
+        model,
+        baseUrl: target.baseUrl,
+      }),
+      model,
+      rateLimiter: this.createRateLimiter(name, model, apiKey),
+      circuitBreaker: this.createCircuitBreaker(),
+    };
   }
 
   static fromEnv(): AIClient {
     const envConfig = parseEnvConfig();
-    if (!envConfig.provider || !envConfig.apiKey) {
+    const registration = envConfig.provider
+      ? getProviderRegistration(envConfig.provider as string)
+      : undefined;
+    if (!registration || (registration.requiresApiKey !== false && !envConfig.apiKey)) {
       throw new AIClientError(
-        "Missing required environment variables. Set AI_PROVIDER (or PROVIDER) and corresponding API key (OPENAI_API_KEY or GEMINI_API_KEY)"
+        "Missing required environment variables. Set AI_PROVIDER (or PROVIDER) and corresponding API key (OPENAI_API_KEY, GEMINI_API_KEY or ANTHROPIC_API_KEY)"
       );
     }
     return new AIClient(envConfig as AIClientConfig);
   }
 
+  // Middleware runs in registration order around every chat, stream and helper call
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
   onRequest(hook: RequestHook): void {
     this.requestHooks.push(hook);
   }
@@ -103,18 +308,52 @@ export class AIClient {
     this.errorHooks.push(hook);
   }
 
+  onBudgetThreshold(hook: BudgetHook): void {
+    this.budgetHooks.push(hook);
+  }
+
   private async executeWithRetry<T>(
-    fn: () => Promise<T>,
-    operation: string
+    fn: (signal: AbortSignal) => Promise<T>,
+    operation: string,
+    options: {
+      target?: ProviderTarget;
+      beforeAttempt?: () => Promise<void>;
+      signal?: AbortSignal;
+      timeout?: number;
+      retryTimeouts?: boolean;
+    } = {}
   ): Promise<T> {
-    const maxRetries = this.config.maxRetries || 3;
+    const { target = this.primaryTarget, beforeAttempt, signal, timeout, retryTimeouts } = options;
+    const policy = this.config.retryPolicy ?? {};
+    const maxRetries = policy.maxRetries ?? this.config.maxRetries ?? 3;
+    const overrides = Object.values(policy.overrides ?? {});
+    const attemptLimit = Math.max(maxRetries, ...overrides.map((rule) => rule?.maxRetries ?? 0));
+    const attempts: RetryAttempt[] = [];
     let lastError: Error | undefined;
+    let previousDelay: number | undefined;
 
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    for (let attempt = 0; attempt <= attemptLimit; attempt++) {
+      target.circuitBreaker?.acquire(target.name);
       try {
-        return await this.executeWithTimeout(fn);
-      } catch (error: any) {
+        // Waiting for rate-limit capacity does not count towards the timeout
+        await beforeAttempt?.();
+        const result = await this.executeWithTimeout(fn, target.name, signal, timeout);
+        target.circuitBreaker?.record();
+        return result;
+      } catch (caught: any) {
+        if (caught instanceof AbortError) {
+          target.circuitBreaker?.release();
+          throw caught;
+        }
+
+        const error = toProviderError(caught, target.name);
+        target.circuitBreaker?.record(error);
         lastError = error;
+        attempts.push({ provider: target.name, model: target.model, error });
+        const rateLimit = parseRateLimitHeaders(caught?.headers ?? caught?.response?.headers);
+        if (rateLimit) {
+          target.rateLimiter?.update(rateLimit);
+        }
 
         // Call error hooks
         for (const hook of this.errorHooks) {
@@ -125,50 +364,142 @@ export class AIClient {
           }
         }
 
+        const rule = policy.overrides?.[error.name as RetryErrorName];
+        const timedOut = retryTimeouts === true && error instanceof TimeoutError;
+        const retryable = rule?.retry ?? (isRetryableError(error) || timedOut);
+        if (!retryable) {
+          throw error;
+        }
+
         // Check if we should retry
-        if (attempt < maxRetries && isRetryableError(error)) {
-          const delay = (this.config.retryDelay || 1000) * Math.pow(2, attempt);
-          await sleep(delay);
+        if (attempt < (rule?.maxRetries ?? maxRetries) && this.retryBudget?.tryAcquire() !== false) {
+          const delay =
+            rateLimit?.retryAfterMs ??
+            computeRetryDelay(attempt, previousDelay, {
+              baseDelay: rule?.baseDelay ?? policy.baseDelay ?? this.config.retryDelay ?? 1000,
+              maxDelay: rule?.maxDelay ?? policy.maxDelay ?? 30_000,
+              jitter: rule?.jitter ?? policy.jitter ?? "none",
+            });
+          previousDelay = delay;
+          await sleep(delay, signal).catch((sleepError) => {
+            throw new AbortError(sleepError.message, target.name);
+          });
           continue;
         }
 
-        // If not retryable or out of retries, throw
-        if (attempt === maxRetries) {
-          throw new RetryError(
-            `Failed after ${maxRetries} retries: ${error.message}`,
-            maxRetries,
-            this.config.provider,
-            error
-          );
+        // Out of retries; a call that was never retried fails with its own error
+        if (attempt === 0) {
+          throw error;
         }
-
-        throw error;
+        throw new RetryError(
+          `Failed after ${attempt} retries: ${error.message}`,
+          attempt,
+          target.name,
+          error,
+          attempts
+        );
       }
     }
 
     throw lastError || new AIClientError(`Failed to execute ${operation}`);
   }
 
-  private async executeWithTimeout<T>(fn: () => Promise<T>): Promise<T> {
-    const timeout = this.config.timeout || 30000;
+  // Aborts the underlying request on timeout or when the caller's signal fires
+  private executeWithTimeout<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    provider: string = this.providerName,
+    signal?: AbortSignal,
+    timeout: number = this.config.timeout || 30000
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError(undefined, provider));
+    }
 
-    return new Promise<T>(async (resolve, reject) => {
+    const controller = new AbortController();
+    return new Promise<T>((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        cleanup();
+        controller.abort();
+        reject(new AbortError(undefined, provider));
+      };
       const timer = setTimeout(() => {
-        reject(new TimeoutError(`Request timed out after ${timeout}ms`, this.config.provider));
+        cleanup();
+        controller.abort();
+        reject(new TimeoutError(`Request timed out after ${timeout}ms`, provider));
       }, timeout);
+      signal?.addEventListener("abort", onAbort, { once: true });
 
-      try {
-        const result = await fn();
-        clearTimeout(timer);
-        resolve(result);
-      } catch (error) {
-        clearTimeout(timer);
-        reject(error);
-      }
+      fn(controller.signal).then(
+        (result) => {
+          cleanup();
+          resolve(result);
+        },
+        (error) => {
+          cleanup();
+          reject(error);
+        }
+      );
     });
   }
 
-  private async callProvider(input: ChatPromptInput): Promise<ChatResult> {
+  private callProvider(input: ChatPromptInput, options?: RequestOptions): Promise<ChatResult> {
+    const context: MiddlewareContext = {
+      operation: "chat",
+      provider: this.providerName,
+      model: this.config.model,
+      transformChunk: () => {},
+    };
+    return this.runMiddleware(input, context, (finalInput) => this.sendRequest(finalInput, options));
+  }
+
+  private runMiddleware(
+    input: ChatPromptInput,
+    context: MiddlewareContext,
+    handler: (input: ChatPromptInput) => Promise<ChatResult>
+  ): Promise<ChatResult> {
+    const chain = [...this.middleware];
+    const dispatch = async (index: number, current: ChatPromptInput): Promise<ChatResult> => {
+      const middleware = chain[index];
+      if (!middleware) {
+        return handler(current);
+      }
+      return middleware(current, (next) => dispatch(index + 1, next ?? current), context);
+    };
+    return dispatch(0, input);
+  }
+
+  private async sendRequest(
+    input: ChatPromptInput,
+    options?: RequestOptions
+  ): Promise<ChatResult> {
+    const cacheControl = typeof options?.cache === "object" ? options.cache : {};
+    const cacheKey =
+      this.cache && options?.cache !== false
+        ? createCacheKey(this.providerName, this.config.model, input)
+        : undefined;
+    if (cacheKey && !cacheControl.refresh) {
+      const cached = await this.cache!.store.get(cacheKey);
+      if (cached) {
+        // Cache hits cost nothing, so they skip budgets and usage accounting
+        const result: ChatResult = { ...cached, cached: true };
+        for (const hook of this.responseHooks) {
+          try {
+            hook(result);
+          } catch (error) {
+            // Ignore hook errors
+          }
+        }
+        return result;
+      }
+    }
+
+    const inputTokens = estimateMessagesTokens(input.messages);
+    let reservation = this.checkBudget(this.config.model, inputTokens, input.maxTokens);
+
     // Call request hooks
     for (const hook of this.requestHooks) {
       try {
@@ -178,10 +509,39 @@ export class AIClient {
       }
     }
 
-    const result = await this.executeWithRetry(
-      () => this.provider.chat(input),
-      "chat"
-    );
+    const estimatedTokens = inputTokens + (input.maxTokens ?? 0);
+    let response: ChatResult;
+    let target: ProviderTarget;
+    try {
+      ({ value: response, target } = await this.executeWithFallbacks(
+        (target, signal) => target.provider.chat({ ...input, signal }),
+        "chat",
+        {
+          estimatedTokens,
+          signal: options?.signal,
+          beforeFallback: (target) => {
+            this.budget?.release(reservation);
+            reservation = this.checkBudget(target.model, inputTokens, input.maxTokens);
+          },
+        }
+      ));
+    } catch (error) {
+      this.budget?.release(reservation);
+      throw error;
+    }
+    this.updateRateLimiter(target, estimatedTokens, response);
+
+    const model = response.model || target.model;
+    const result: ChatResult = {
+      ...response,
+      usage: this.recordUsage(model, response, 1, reservation),
+      provider: target.name,
+      model,
+    };
+
+    if (cacheKey) {
+      await this.cache!.store.set(cacheKey, result, cacheControl.ttl ?? this.cache!.ttl);
+    }
 
     // Call response hooks
     for (const hook of this.responseHooks) {
@@ -192,208 +552,687 @@ export class AIClient {
       }
     }
 
+    return result;
+  }
+
+  // Moves on to the next target while failures look like an outage of the current one
+  private async executeWithFallbacks<T>(
+    fn: (target: ProviderTarget, signal: AbortSignal) => Promise<T>,
+    operation: string,
+    options: {
+      estimatedTokens: number;
+      targets?: ProviderTarget[];
+      beforeFallback?: (target: ProviderTarget) => void;
+      signal?: AbortSignal;
+      timeout?: number;
+      retryTimeouts?: boolean;
+    }
+  ): Promise<{ value: T; target: ProviderTarget }> {
+    const { estimatedTokens, beforeFallback, signal, timeout, retryTimeouts } = options;
+    const targets = options.targets ?? [this.primaryTarget, ...this.fallbacks];
+    const attempts: RetryAttempt[] = [];
+
+    for (let index = 0; ; index++) {
+      const target = targets[index];
+      const { rateLimiter } = target;
+      try {
+        if (index > 0) {
+          beforeFallback?.(target);
+        }
+        const value = await this.executeWithRetry(
+          (attemptSignal) => fn(target, attemptSignal),
+          operation,
+          {
+            target,
+            beforeAttempt: rateLimiter && (() => rateLimiter.acquire(estimatedTokens, signal)),
+            signal,
+            timeout,
+            retryTimeouts,
+          }
+        );
+        return { value, target };
+      } catch (error: any) {
+        attempts.push(
+          ...(error instanceof RetryError && error.attempts.length > 0
+            ? error.attempts
+            : [{ provider: target.name, model: target.model, error }])
+        );
+        if (!isProviderOutage(error) || targets.length === 1) {
+          throw error;
+        }
+        if (index === targets.length - 1) {
+          throw new RetryError(
+            `All ${targets.length} providers failed: ${error.message}`,
+            attempts.length - 1,
+            target.name,
+            error,
+            attempts
+          );
+        }
+      }
+    }
+  }
+
+  private updateRateLimiter(
+    target: ProviderTarget,
+    estimatedTokens: number,
+    result: ChatResult
+  ): void {
+    const { rateLimiter } = target;
+    if (!rateLimiter) return;
+    const actualTokens = result.usage?.totalTokens ?? result.tokensUsed;
+    if (actualTokens !== undefined) {
+      rateLimiter.reconcile(estimatedTokens, actualTokens);
+    }
+    if (result.rateLimit) {
+      rateLimiter.update(result.rateLimit);
+    }
+  }
+
+  private priceUsage(
+    model: string | undefined,
+    result: { usage?: TokenUsage; tokensUsed?: number },
+    priceMultiplier: number = 1
+  ): TokenUsage | undefined {
+    // Providers that only report a total still count towards it
+    const reported: TokenUsage | undefined =
+      result.usage ??
+      (result.tokensUsed !== undefined
+        ? { inputTokens: 0, outputTokens: 0, totalTokens: result.tokensUsed }
+        : undefined);
+    const cost = reported && calculateCost(model, reported, this.config.pricing);
+    return (
+      reported && {
+        ...reported,
+        cost: cost !== undefined ? cost * priceMultiplier : undefined,
+      }
+    );
+  }
+
+  private recordUsage(
+    model: string | undefined,
+    result: { usage?: TokenUsage; tokensUsed?: number },
+    priceMultiplier: number = 1,
+    reservation?: BudgetReservation
+  ): TokenUsage | undefined {
+    const usage = this.priceUsage(model, result, priceMultiplier);
+    const key = model || "unknown";
+    const byModel = this.usage.byModel[key] || {
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      cost: 0,
+    };
+
+    for (const totals of [this.usage, byModel]) {
+      totals.requests++;
+      if (usage) {
+        totals.inputTokens += usage.inputTokens;
+        totals.outputTokens += usage.outputTokens;
+        totals.totalTokens += usage.totalTokens;
+        totals.cost += usage.cost || 0;
+      }
+    }
+    this.usage.byModel[key] = byModel;
+
+    if (this.budget && !usage) {
+      this.budget.release(reservation);
+    }
+    if (this.budget && usage) {
+      const events = this.budget.record(
+        { tokens: usage.totalTokens, cost: usage.cost || 0 },
+        reservation
+      );
+      for (const event of events) {
+        for (const hook of this.budgetHooks) {
+          try {
+            hook(event);
+          } catch (error) {
+            // Ignore hook errors
+          }
+        }
+      }
+    }
+
+    return usage;
+  }
+
+  private checkBudget(
+    model: string | undefined,
+    inputTokens: number,
+    maxOutputTokens?: number
+  ): BudgetReservation | undefined {
+    if (!this.budget) return undefined;
+
+    const outputTokens = maxOutputTokens ?? 0;
+    const cost = calculateCost(
+      model,
+      { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      this.config.pricing
+    );
+    return this.budget.check({ tokens: inputTokens + outputTokens, cost: cost || 0 });
+  }
+
+  getUsage(): UsageSummary {
     return {
-      ...result,
-      provider: this.config.provider,
-      model: result.model || this.config.model,
+      ...this.usage,
+      byModel: Object.fromEntries(
+        Object.entries(this.usage.byModel).map(([model, totals]) => [model, { ...totals }])
+      ),
     };
   }
 
+  resetUsage(): void {
+    this.usage = emptyUsageSummary();
+  }
+
+  // State of the primary provider's circuit breaker, if one is configured
+  getCircuitState(): CircuitState | undefined {
+    return this.circuitBreaker?.state;
+  }
+
   async summarize(text: string, options?: SummarizeOptions): Promise<SummarizeResult> {
-    const prompt = PROMPT_TEMPLATES.summarize(text, options);
-    const result = await this.callProvider({
-      messages: [{ role: "user", content: prompt }],
-      temperature: this.config.temperature,
-      maxTokens: this.config.maxTokens,
-    });
+    const injection = this.checkInjection(text, options?.injectionGuard);
+    const result = await this.callProvider(
+      {
+        messages: PROMPT_TEMPLATES.summarize(text, options),
+        temperature: this.config.temperature,
+        maxTokens: this.config.maxTokens,
+      },
+      options
+    );
 
     return {
       summary: result.content,
       tokensUsed: result.tokensUsed,
+      usage: result.usage,
       provider: result.provider,
       model: result.model,
+      cached: result.cached,
+      redaction: result.redaction,
+      injection,
     };
   }
 
+  summarizeStream(text: string, options?: SummarizeOptions): ChatStream {
+    return this.guardedStream(
+      text,
+      options?.injectionGuard,
+      () => PROMPT_TEMPLATES.summarize(text, options),
+      { temperature: this.config.temperature, signal: options?.signal }
+    );
+  }
+
   async fixGrammar(text: string, options?: FixGrammarOptions): Promise<FixGrammarResult> {
     const prompt = PROMPT_TEMPLATES.fixGrammar(text, options);
-    const result = await this.callProvider({
-      messages: [{ role: "user", content: prompt }],
-      temperature: 0.3, // Lower temperature for grammar correction
-      maxTokens: this.config.maxTokens,
-    });
+    const result = await this.callProvider(
+      {
+        messages: [{ role: "user", content: prompt }],
+        temperature: 0.3, // Lower temperature for grammar correction
+        maxTokens: this.config.maxTokens,
+      },
+      options
+    );
 
     return {
       corrected: result.content,
       tokensUsed: result.tokensUsed,
+      usage: result.usage,
       provider: result.provider,
       model: result.model,
+      cached: result.cached,
+      redaction: result.redaction,
     };
   }
 
+  fixGrammarStream(text: string, options?: FixGrammarOptions): ChatStream {
+    return this.chatStream(
+      [{ role: "user", content: PROMPT_TEMPLATES.fixGrammar(text, options) }],
+      // Lower temperature for grammar correction
+      { temperature: 0.3, signal: options?.signal }
+    );
+  }
+
   async translate(
     text: string,
     targetLang: string,
     options?: TranslateOptions
   ): Promise<TranslateResult> {
     const prompt = PROMPT_TEMPLATES.translate(text, targetLang, options);
-    const result = await this.callProvider({
-      messages: [{ role: "user", content: prompt }],
-      temperature: this.config.temperature,
-      maxTokens: this.config.maxTokens,
-    });
+    const result = await this.callProvider(
+      {
+        messages: [{ role: "user", content: prompt }],
+        temperature: this.config.temperature,
+        maxTokens: this.config.maxTokens,
+      },
+      options
+    );
 
     return {
       translated: result.content,
       tokensUsed: result.tokensUsed,
+      usage: result.usage,
       provider: result.provider,
       model: result.model,
+      cached: result.cached,
+      redaction: result.redaction,
     };
   }
 
+  translateStream(
+    text: string,
+    targetLang: string,
+    options?: TranslateOptions
+  ): ChatStream {
+    return this.chatStream(
+      [{ role: "user", content: PROMPT_TEMPLATES.translate(text, targetLang, options) }],
+      { temperature: this.config.temperature, signal: options?.signal }
+    );
+  }
+
   async answerQuestion(
     context: string,
     question: string,
     options?: AnswerQuestionOptions
   ): Promise<AnswerQuestionResult> {
-    const prompt = PROMPT_TEMPLATES.answerQuestion(context, question, options);
-    const result = await this.callProvider({
-      messages: [{ role: "user", content: prompt }],
-      temperature: options?.temperature ?? this.config.temperature,
-      maxTokens: this.config.maxTokens,
-    });
+    const injection = this.checkInjection(context, options?.injectionGuard);
+    const result = await this.callProvider(
+      {
+        messages: PROMPT_TEMPLATES.answerQuestion(context, question, options),
+        temperature: options?.temperature ?? this.config.temperature,
+        maxTokens: this.config.maxTokens,
+      },
+      options
+    );
 
     return {
       answer: result.content,
       tokensUsed: result.tokensUsed,
+      usage: result.usage,
       provider: result.provider,
       model: result.model,
+      cached: result.cached,
+      redaction: result.redaction,
+      injection,
     };
   }
 
+  answerQuestionStream(
+    context: string,
+    question: string,
+    options?: AnswerQuestionOptions
+  ): ChatStream {
+    return this.guardedStream(
+      context,
+      options?.injectionGuard,
+      () => PROMPT_TEMPLATES.answerQuestion(context, question, options),
+      { temperature: options?.temperature ?? this.config.temperature, signal: options?.signal }
+    );
+  }
+
+  // Scores untrusted input; in "block" mode a flagged input never reaches the provider
+  private checkInjection(
+    text: string,
+    setting: boolean | InjectionGuardOptions | undefined
+  ): InjectionReport | undefined {
+    const guard = setting ?? this.config.injectionGuard;
+    if (!guard) return undefined;
+
+    const options = guard === true ? {} : guard;
+    const report = assessInjectionRisk(text, options);
+    if (report.flagged && options.mode === "block") {
+      throw new PromptInjectionError(
+        `Input looks like a prompt injection (risk score ${report.score})`,
+        report
+      );
+    }
+    return report;
+  }
+
+  // Like chatStream(), with the injection report on the final result and blocks thrown on iteration
+  private guardedStream(
+    text: string,
+    setting: boolean | InjectionGuardOptions | undefined,
+    messages: () => Message[],
+    options: ChatOptions
+  ): ChatStream {
+    return new ChatStream((complete, fail) => {
+      let injection: InjectionReport | undefined;
+      try {
+        injection = this.checkInjection(text, setting);
+      } catch (error: any) {
+        fail(error);
+        return (async function* (): AsyncGenerator<ChatStreamChunk> {
+          throw error;
+        })();
+      }
+      return this.streamChat(
+        messages(),
+        options,
+        (result) => complete(injection ? { ...result, injection } : result),
+        fail
+      );
+    });
+  }
+
   async rewrite(
     text: string,
     style: "formal" | "casual" | "short" | "detailed",
     options?: RewriteOptions
   ): Promise<RewriteResult> {
     const prompt = PROMPT_TEMPLATES.rewrite(text, style, options);
-    const result = await this.callProvider({
-      messages: [{ role: "user", content: prompt }],
-      temperature: this.config.temperature,
-      maxTokens: this.config.maxTokens,
-    });
+    const result = await this.callProvider(
+      {
+        messages: [{ role: "user", content: prompt }],
+        temperature: this.config.temperature,
+        maxTokens: this.config.maxTokens,
+      },
+      options
+    );
 
     return {
       rewritten: result.content,
       tokensUsed: result.tokensUsed,
+      usage: result.usage,
       provider: result.provider,
       model: result.model,
+      cached: result.cached,
+      redaction: result.redaction,
     };
   }
 
+  rewriteStream(
+    text: string,
+    style: "formal" | "casual" | "short" | "detailed",
+    options?: RewriteOptions
+  ): ChatStream {
+    return this.chatStream(
+      [{ role: "user", content: PROMPT_TEMPLATES.rewrite(text, style, options) }],
+      { temperature: this.config.temperature, signal: options?.signal }
+    );
+  }
+
   async summarizeToBullets(
     text: string,
     options?: SummarizeToBulletsOptions
   ): Promise<SummarizeToBulletsResult> {
     const prompt = PROMPT_TEMPLATES.summarizeToBullets(text, options);
-    const result = await this.callProvider({
-      messages: [{ role: "user", content: prompt }],
-      temperature: this.config.temperature,
-      maxTokens: this.config.maxTokens,
-    });
+    const result = await this.callProvider(
+      {
+        messages: [{ role: "user", content: prompt }],
+        temperature: this.config.temperature,
+        maxTokens: this.config.maxTokens,
+      },
+      options
+    );
 
     // Parse bullet points from response
     const bullets = result.content
       .split("\n")
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0)
-      .map((line) => line.replace(/^[-*•]\s*/, ""))
-      .filter((line) => line.length > 0);
+      .map(parseBullet)
+      .filter((bullet): bullet is string => bullet !== undefined);
 
     return {
       bullets,
       tokensUsed: result.tokensUsed,
+      usage: result.usage,
       provider: result.provider,
       model: result.model,
+      cached: result.cached,
+      redaction: result.redaction,
     };
   }
 
+  // Yields each bullet as soon as its line is complete
+  async *summarizeToBulletsStream(
+    text: string,
+    options?: SummarizeToBulletsOptions
+  ): AsyncIterable<string> {
+    const stream = this.chatStream(
+      [{ role: "user", content: PROMPT_TEMPLATES.summarizeToBullets(text, options) }],
+      { temperature: this.config.temperature, signal: options?.signal }
+    );
+
+    let buffer = "";
+    for await (const chunk of stream) {
+      buffer += chunk.content;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        const bullet = parseBullet(line);
+        if (bullet) yield bullet;
+      }
+    }
+
+    const last = parseBullet(buffer);
+    if (last) yield last;
+  }
+
   async extractKeywords(
     text: string,
     options?: ExtractKeywordsOptions
   ): Promise<ExtractKeywordsResult> {
     const prompt = PROMPT_TEMPLATES.extractKeywords(text, options);
-    const result = await this.callProvider({
-      messages: [{ role: "user", content: prompt }],
-      temperature: 0.3, // Lower temperature for extraction
-      maxTokens: this.config.maxTokens,
-    });
+    const result = await this.generateObject<{ keywords: string[] }>(
+      prompt,
+      {
+        type: "object",
+        properties: {
+          keywords: {
+            type: "array",
+            items: { type: "string", minLength: options?.minLength ?? 1 },
+            maxItems: options?.maxKeywords,
+          },
+        },
+        required: ["keywords"],
+      },
+      {
+        schemaName: "keywords",
+        temperature: 0.3, // Lower temperature for extraction
+        maxTokens: this.config.maxTokens,
+        cache: options?.cache,
+        signal: options?.signal,
+      }
+    );
 
-    // Parse keywords from comma-separated list
-    const keywords = result.content
-      .split(",")
-      .map((k) => k.trim())
-      .filter((k) => k.length > 0);
+    const keywords = result.object.keywords.map((k) => k.trim()).filter((k) => k.length > 0);
 
     return {
       keywords,
       tokensUsed: result.tokensUsed,
+      usage: result.usage,
       provider: result.provider,
       model: result.model,
+      cached: result.cached,
+      redaction: result.redaction,
     };
   }
 
-  async detectLanguage(text: string): Promise<DetectLanguageResult> {
+  async detectLanguage(text: string, options?: RequestOptions): Promise<DetectLanguageResult> {
     const prompt = PROMPT_TEMPLATES.detectLanguage(text);
-    const result = await this.callProvider({
-      messages: [{ role: "user", content: prompt }],
-      temperature: 0.1, // Very low temperature for detection
-      maxTokens: 10,
-    });
-
-    const language = result.content.trim().toLowerCase();
-    // Simple confidence calculation (could be improved)
-    const confidence = language.length === 2 ? 0.9 : 0.7;
+    const result = await this.generateObject<{ language: string; confidence: number }>(
+      prompt,
+      {
+        type: "object",
+        properties: {
+          language: { type: "string", minLength: 2, maxLength: 3 },
+          confidence: { type: "number", minimum: 0, maximum: 1 },
+        },
+        required: ["language", "confidence"],
+      },
+      {
+        schemaName: "language",
+        temperature: 0.1, // Very low temperature for detection
+        maxTokens: 50,
+        cache: options?.cache,
+        signal: options?.signal,
+      }
+    );
 
     return {
-      language,
-      confidence,
+      language: result.object.language.trim().toLowerCase(),
+      confidence: result.object.confidence,
       tokensUsed: result.tokensUsed,
+      usage: result.usage,
       provider: result.provider,
       model: result.model,
+      cached: result.cached,
+      redaction: result.redaction,
     };
   }
 
-  async classifySentiment(text: string): Promise<ClassifySentimentResult> {
+  async classifySentiment(
+    text: string,
+    options?: RequestOptions
+  ): Promise<ClassifySentimentResult> {
     const prompt = PROMPT_TEMPLATES.classifySentiment(text);
-    const result = await this.callProvider({
-      messages: [{ role: "user", content: prompt }],
-      temperature: 0.3,
-      maxTokens: 20,
-    });
+    const result = await this.generateObject<{
+      sentiment: ClassifySentimentResult["sentiment"];
+      score: number;
+    }>(
+      prompt,
+      {
+        type: "object",
+        properties: {
+          sentiment: { type: "string", enum: ["positive", "neutral", "negative"] },
+          score: { type: "number", minimum: 0, maximum: 1 },
+        },
+        required: ["sentiment", "score"],
+      },
+      {
+        schemaName: "sentiment",
+        temperature: 0.3,
+        maxTokens: 50,
+        cache: options?.cache,
+        signal: options?.signal,
+      }
+    );
+
+    return {
+      sentiment: result.object.sentiment,
+      score: result.object.score,
+      tokensUsed: result.tokensUsed,
+      usage: result.usage,
+      provider: result.provider,
+      model: result.model,
+      cached: result.cached,
+      redaction: result.redaction,
+    };
+  }
+
+  async generateObject<T = unknown>(
+    prompt: string | Message[],
+    schema: JSONSchema,
+    options?: GenerateObjectOptions
+  ): Promise<GenerateObjectResult<T>> {
+    const maxAttempts = options?.maxAttempts ?? 3;
+    const instructions = `Respond only with JSON that matches this JSON schema:\n${JSON.stringify(schema)}`;
+    const messages: Message[] = [
+      {
+        role: "system",
+        content: options?.system ? `${options.system}\n\n${instructions}` : instructions,
+      },
+      ...(typeof prompt === "string" ? [{ role: "user" as const, content: prompt }] : prompt),
+    ];
+
+    let tokensUsed: number | undefined;
+    let usage: TokenUsage | undefined;
+    let errors: string[] = [];
+    let content = "";
+    let cached = true;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const result = await this.callProvider(
+        {
+          messages,
+          temperature: options?.temperature ?? this.config.temperature,
+          maxTokens: options?.maxTokens ?? this.config.maxTokens,
+          responseFormat: { type: "json", schema, name: options?.schemaName },
+        },
+        options
+      );
 
-    // Parse sentiment and score
-    const parts = result.content.split("|");
-    let sentiment: "positive" | "neutral" | "negative" = "neutral";
-    let score = 0.5;
+      if (result.tokensUsed !== undefined) {
+        tokensUsed = (tokensUsed || 0) + result.tokensUsed;
+      }
+      usage = addUsage(usage, result.usage);
+      cached = cached && result.cached === true;
 
-    if (parts.length >= 2) {
-      const sent = parts[0].trim().toLowerCase();
-      if (sent === "positive" || sent === "neutral" || sent === "negative") {
-        sentiment = sent;
+      content = result.content;
+      let value: unknown;
+      try {
+        value = parseJSONResponse(content);
+        errors = validateSchema(value, schema);
+      } catch (error: any) {
+        errors = [`Response is not valid JSON: ${error.message}`];
       }
-      const parsedScore = parseFloat(parts[1].trim());
-      if (!isNaN(parsedScore)) {
-        score = Math.max(0, Math.min(1, parsedScore));
+
+      if (errors.length === 0) {
+        return {
+          object: value as T,
+          attempts: attempt,
+          tokensUsed,
+          usage,
+          provider: result.provider,
+          model: result.model,
+          cached: cached || undefined,
+          // The last attempt carries the whole exchange, so its report covers every attempt
+          redaction: result.redaction,
+        };
       }
+
+      // Re-prompt with the validation errors
+      messages.push(
+        { role: "assistant", content },
+        {
+          role: "user",
+          content: `The response did not match the schema:\n- ${errors.join("\n- ")}\nRespond again with corrected JSON only.`,
+        }
+      );
     }
 
+    throw new SchemaValidationError(
+      `Response did not match the schema after ${maxAttempts} attempts: ${errors.join("; ")}`,
+      errors,
+      content,
+      this.providerName
+    );
+  }
+
+  async describeImage(
+    image: string | Buffer,
+    options?: DescribeImageOptions
+  ): Promise<DescribeImageResult> {
+    const prompt = PROMPT_TEMPLATES.describeImage(options);
+    // Strings are URLs (including data: URLs) or base64-encoded bytes
+    const imagePart: ImageContentPart =
+      typeof image === "string" && /^(https?|data|gs):/i.test(image)
+        ? { type: "image", url: image, mimeType: options?.mimeType, detail: options?.detail }
+        : { type: "image", data: image, mimeType: options?.mimeType, detail: options?.detail };
+
+    const result = await this.callProvider(
+      {
+        messages: [
+          {
+            role: "user",
+            content: [{ type: "text", text: prompt }, imagePart],
+          },
+        ],
+        temperature: this.config.temperature,
+        maxTokens: options?.maxTokens ?? this.config.maxTokens,
+      },
+      options
+    );
+
     return {
-      sentiment,
-      score,
+      description: result.content,
       tokensUsed: result.tokensUsed,
+      usage: result.usage,
       provider: result.provider,
       model: result.model,
+      cached: result.cached,
+      redaction: result.redaction,
     };
   }
 
@@ -403,48 +1242,544 @@ export class AIClient {
     options?: CustomPromptOptions
   ): Promise<CustomPromptResult> {
     const processedPrompt = PROMPT_TEMPLATES.customPrompt(prompt, variables);
-    const result = await this.callProvider({
-      messages: [{ role: "user", content: processedPrompt }],
-      temperature: options?.temperature ?? this.config.temperature,
-      maxTokens: options?.maxTokens ?? this.config.maxTokens,
-    });
+    const result = await this.callProvider(
+      {
+        messages: [{ role: "user", content: processedPrompt }],
+        temperature: options?.temperature ?? this.config.temperature,
+        maxTokens: options?.maxTokens ?? this.config.maxTokens,
+      },
+      options
+    );
 
     return {
       result: result.content,
       tokensUsed: result.tokensUsed,
+      usage: result.usage,
       provider: result.provider,
       model: result.model,
+      cached: result.cached,
+      redaction: result.redaction,
     };
   }
 
   async chat(messages: Message[], options?: ChatOptions): Promise<ChatResult> {
-    const result = await this.callProvider({
-      messages,
-      temperature: options?.temperature ?? this.config.temperature,
-      maxTokens: options?.maxTokens ?? this.config.maxTokens,
-      stream: options?.stream,
+    const { input, report } = await this.fitContext(
+      {
+        messages,
+        temperature: options?.temperature ?? this.config.temperature,
+        maxTokens: options?.maxTokens ?? this.config.maxTokens,
+        stream: options?.stream,
+        tools: options?.tools,
+        toolChoice: options?.toolChoice,
+        signal: options?.signal,
+      },
+      options?.contextWindow
+    );
+
+    const result = await this.callProvider(input, options);
+
+    return report ? { ...result, contextManagement: report } : result;
+  }
+
+  private async fitContext(
+    input: ChatPromptInput,
+    options?: ContextWindowOptions | false
+  ): Promise<{ input: ChatPromptInput; report?: ContextManagementReport }> {
+    const settings = options === false ? undefined : options ?? this.config.contextWindow;
+    if (!settings) {
+      return { input };
+    }
+
+    const limit = settings.maxContextTokens ?? getContextLimit(this.config.model, settings.limits);
+    const budget = limit - (settings.reserveTokens ?? input.maxTokens ?? 1024);
+    const originalTokens = estimateMessagesTokens(input.messages);
+    if (originalTokens <= budget) {
+      return { input };
+    }
+
+    const strategy = settings.strategy ?? "truncate";
+    let messages = input.messages;
+    let removedMessages = 0;
+    let summary: string | undefined;
+
+    if (strategy === "summarize") {
+      const system = messages.filter((msg) => msg.role === "system");
+      const rest = messages.filter((msg) => msg.role !== "system");
+      let split = Math.max(0, rest.length - (settings.preserveRecent ?? 4));
+      // Keep tool results together with the call that requested them
+      while (split > 0 && rest[split]?.role === "tool") {
+        split--;
+      }
+
+      if (split > 0) {
+        summary = await this.summarizeMessages(rest.slice(0, split), input.signal);
+        messages = [
+          ...system,
+          { role: "system", content: `Summary of the earlier conversation:\n${summary}` },
+          ...rest.slice(split),
+        ];
+        removedMessages = split;
+      }
+    }
+
+    // Drop whatever still does not fit
+    const truncated = truncateMessages(messages, budget);
+    removedMessages += truncated.removed;
+
+    return {
+      input: { ...input, messages: truncated.messages },
+      report: {
+        strategy,
+        originalTokens,
+        finalTokens: estimateMessagesTokens(truncated.messages),
+        removedMessages,
+        summary,
+      },
+    };
+  }
+
+  private async summarizeMessages(messages: Message[], signal?: AbortSignal): Promise<string> {
+    const transcript = messages
+      .map((msg) => `${msg.role}: ${getTextContent(msg.content)}`)
+      .join("\n\n");
+    const result = await this.callProvider(
+      {
+        messages: PROMPT_TEMPLATES.summarize(transcript, { length: "short" }),
+        temperature: this.config.temperature,
+        maxTokens: this.config.maxTokens,
+      },
+      { signal }
+    );
+    return result.content;
+  }
+
+  // e.g. client.batch(documents, (doc) => client.summarize(doc), { concurrency: 10 })
+  batch<TInput, TResult>(
+    inputs: TInput[],
+    fn: (input: TInput, index: number) => Promise<TResult>,
+    options?: BatchOptions
+  ): Promise<BatchResult<TResult>> {
+    return runBatch(inputs, fn, options);
+  }
+
+  // Submits inputs to the provider's asynchronous batch API, e.g. OpenAI's half-price Batch API
+  async submitBatchJob(inputs: BatchJobInput[], options?: BatchJobOptions): Promise<BatchJob> {
+    if (!this.provider.createBatchJob) {
+      throw new AIClientError("Batch jobs not supported by this provider", this.providerName);
+    }
+
+    const redactors = new Map<string, Redactor>();
+    const requests = inputs.map(({ customId, ...input }, index) => {
+      const id = customId ?? `request-${index}`;
+      let messages = input.messages;
+      if (this.redaction) {
+        const redactor = new Redactor(this.redaction);
+        messages = messages.map((message) => redactor.redactMessage(message));
+        redactors.set(id, redactor);
+      }
+      return {
+        customId: id,
+        input: {
+          ...input,
+          messages,
+          temperature: input.temperature ?? this.config.temperature,
+          maxTokens: input.maxTokens ?? this.config.maxTokens,
+        },
+      };
     });
+    const ids = new Set(requests.map((request) => request.customId));
+    if (ids.size !== requests.length) {
+      throw new AIClientError("Batch job custom IDs must be unique", this.providerName);
+    }
 
-    return result;
+    const reservation = this.checkBudget(
+      this.config.model,
+      requests.reduce((total, request) => total + estimateMessagesTokens(request.input.messages), 0),
+      requests.reduce((total, request) => total + (request.input.maxTokens ?? 0), 0)
+    );
+
+    let job: BatchJob;
+    try {
+      job = await this.executeWithRetry(
+        (signal) => this.provider.createBatchJob!(requests, { ...options, signal }),
+        "createBatchJob",
+        { signal: options?.signal }
+      );
+    } catch (error) {
+      this.budget?.release(reservation);
+      throw error;
+    }
+    // Held until the results are collected, so jobs in progress count against the budget
+    if (reservation) {
+      this.batchReservations.set(job.id, reservation);
+    }
+    if (redactors.size > 0) {
+      this.batchRedactors.set(job.id, redactors);
+    }
+    return job;
   }
 
-  async *chatStream(
-    messages: Message[],
-    options?: ChatOptions
-  ): AsyncIterable<ChatStreamChunk> {
-    if (!this.provider.chatStream) {
+  async getBatchJob(id: string, options?: AbortOptions): Promise<BatchJob> {
+    if (!this.provider.getBatchJob) {
+      throw new AIClientError("Batch jobs not supported by this provider", this.providerName);
+    }
+    return this.executeWithRetry(
+      (signal) => this.provider.getBatchJob!(id, signal),
+      "getBatchJob",
+      { signal: options?.signal }
+    );
+  }
+
+  async cancelBatchJob(id: string, options?: AbortOptions): Promise<BatchJob> {
+    if (!this.provider.cancelBatchJob) {
+      throw new AIClientError("Batch jobs not supported by this provider", this.providerName);
+    }
+    return this.executeWithRetry(
+      (signal) => this.provider.cancelBatchJob!(id, signal),
+      "cancelBatchJob",
+      { signal: options?.signal }
+    );
+  }
+
+  private releaseBatchReservation(id: string): void {
+    this.budget?.release(this.batchReservations.get(id));
+    this.batchReservations.delete(id);
+  }
+
+  // Polls until the job completes, fails, expires or is cancelled
+  async waitForBatchJob(id: string, options?: WaitForBatchJobOptions): Promise<BatchJob> {
+    const pollInterval = options?.pollInterval ?? 30_000;
+    const deadline = options?.timeout !== undefined ? Date.now() + options.timeout : Infinity;
+
+    while (true) {
+      const job = await this.getBatchJob(id, options);
+      options?.onStatus?.(job);
+      if (FINISHED_BATCH_STATUSES.includes(job.status)) {
+        return job;
+      }
+      if (Date.now() + pollInterval > deadline) {
+        throw new TimeoutError(
+          `Batch job ${id} did not finish within ${options!.timeout}ms`,
+          this.providerName
+        );
+      }
+      await sleep(pollInterval, options?.signal);
+    }
+  }
+
+  async getBatchJobResults(
+    job: string | BatchJob,
+    options?: AbortOptions
+  ): Promise<BatchJobResults> {
+    if (!this.provider.getBatchJobOutput) {
+      throw new AIClientError("Batch jobs not supported by this provider", this.providerName);
+    }
+
+    const finishedJob = typeof job === "string" ? await this.getBatchJob(job, options) : job;
+    const outputs = await this.executeWithRetry(
+      (signal) => this.provider.getBatchJobOutput!(finishedJob, signal),
+      "getBatchJobOutput",
+      { signal: options?.signal }
+    );
+
+    const results: Record<string, ChatResult> = {};
+    const errors: Record<string, Error> = {};
+    let tokensUsed: number | undefined;
+    let usage: TokenUsage | undefined;
+    // Only the client that submitted the job knows its placeholders; the originals are
+    // dropped once restored so they do not outlive the job
+    const redactors = this.batchRedactors.get(finishedJob.id);
+    this.batchRedactors.delete(finishedJob.id);
+    this.releaseBatchReservation(finishedJob.id);
+    // Collecting the same job again must not count its usage twice
+    const recorded = this.recordedBatchJobs.has(finishedJob.id);
+    this.recordedBatchJobs.add(finishedJob.id);
+
+    for (const output of outputs) {
+      if (!output.result) {
+        errors[output.customId] = output.error || new AIClientError("Batch request failed");
+        continue;
+      }
+
+      const model = output.result.model || this.config.model;
+      const redactor = redactors?.get(output.customId);
+      const result: ChatResult = {
+        ...(redactor ? redactor.restoreResult(output.result) : output.result),
+        usage: recorded
+          ? this.priceUsage(model, output.result, BATCH_PRICE_MULTIPLIER)
+          : this.recordUsage(model, output.result, BATCH_PRICE_MULTIPLIER),
+        provider: this.providerName,
+        model,
+      };
+      results[output.customId] = result;
+      if (result.tokensUsed !== undefined) {
+        tokensUsed = (tokensUsed || 0) + result.tokensUsed;
+      }
+      usage = addUsage(usage, result.usage);
+    }
+
+    return { job: finishedJob, results, errors, tokensUsed, usage };
+  }
+
+  // Submits, waits for and collects a batch job in one call
+  async runBatchJob(
+    inputs: BatchJobInput[],
+    options?: BatchJobOptions & WaitForBatchJobOptions
+  ): Promise<BatchJobResults> {
+    const submitted = await this.submitBatchJob(inputs, options);
+    const job = await this.waitForBatchJob(submitted.id, options);
+    if (job.status === "failed" || job.status === "cancelled") {
+      this.batchRedactors.delete(job.id);
+      this.releaseBatchReservation(job.id);
       throw new AIClientError(
-        "Streaming not supported by this provider",
-        this.config.provider
+        `Batch job ${job.id} ${job.status}${job.errors?.length ? `: ${job.errors.join("; ")}` : ""}`,
+        this.providerName
       );
     }
+    return this.getBatchJobResults(job, options);
+  }
 
-    const input: ChatPromptInput = {
-      messages,
-      temperature: options?.temperature ?? this.config.temperature,
-      maxTokens: options?.maxTokens ?? this.config.maxTokens,
-      stream: true,
-    };
+  createConversation(options?: ConversationOptions): Conversation {
+    return new Conversation(this, options);
+  }
+
+  registerTool(tool: RunnableTool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  async runTools(messages: Message[], options?: RunToolsOptions): Promise<RunToolsResult> {
+    const tools = new Map(this.tools);
+    for (const tool of options?.tools || []) {
+      tools.set(tool.name, tool);
+    }
+    if (tools.size === 0) {
+      throw new AIClientError("No tools registered", this.providerName);
+    }
+
+    const definitions: ToolDefinition[] = Array.from(tools.values()).map(
+      ({ name, description, parameters }) => ({ name, description, parameters })
+    );
+    const maxIterations = options?.maxIterations ?? 10;
+    const history: Message[] = [...messages];
+    const toolResults: ToolCallResult[] = [];
+    let tokensUsed: number | undefined;
+    let usage: TokenUsage | undefined;
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      const result = await this.callProvider(
+        {
+          messages: history,
+          temperature: options?.temperature ?? this.config.temperature,
+          maxTokens: options?.maxTokens ?? this.config.maxTokens,
+          tools: definitions,
+          // Only force a tool on the first turn, otherwise the loop never ends
+          toolChoice: iteration === 1 ? options?.toolChoice : undefined,
+        },
+        options
+      );
+
+      if (result.tokensUsed !== undefined) {
+        tokensUsed = (tokensUsed || 0) + result.tokensUsed;
+      }
+      usage = addUsage(usage, result.usage);
+
+      if (!result.toolCalls?.length) {
+        history.push({ role: "assistant", content: result.content });
+        return {
+          ...result,
+          tokensUsed,
+          usage,
+          messages: history,
+          toolResults,
+          iterations: iteration,
+        };
+      }
+
+      history.push({
+        role: "assistant",
+        content: result.content,
+        toolCalls: result.toolCalls,
+      });
+
+      for (const call of result.toolCalls) {
+        const toolResult = await this.executeTool(
+          tools.get(call.name),
+          call,
+          result.finishReason
+        );
+        toolResults.push(toolResult);
+        history.push({
+          role: "tool",
+          content: toolResult.output,
+          toolCallId: call.id,
+          name: call.name,
+        });
+      }
+    }
+
+    throw new AIClientError(
+      `Tool loop did not finish within ${maxIterations} iterations`,
+      this.providerName
+    );
+  }
+
+  private async executeTool(
+    tool: RunnableTool | undefined,
+    call: ToolCall,
+    finishReason?: string
+  ): Promise<ToolCallResult> {
+    // Failures are reported back to the model so it can recover
+    if (!tool) {
+      const error = `Unknown tool: ${call.name}`;
+      return { call, output: `Error: ${error}`, error };
+    }
+    // Never run a handler with arguments that were cut off or could not be parsed
+    if (finishReason === "length") {
+      const error = `Arguments for ${call.name} were cut off by the output token limit`;
+      return { call, output: `Error: ${error}`, error };
+    }
+    if (call.rawArguments !== undefined) {
+      const error = `Arguments for ${call.name} are not valid JSON: ${call.rawArguments}`;
+      return { call, output: `Error: ${error}`, error };
+    }
+
+    try {
+      const output = await tool.handler(call.arguments, call);
+      return {
+        call,
+        output: typeof output === "string" ? output : JSON.stringify(output ?? null),
+      };
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      return { call, output: `Error: ${message}`, error: message };
+    }
+  }
+
+  chatStream(messages: Message[], options?: ChatOptions): ChatStream {
+    return new ChatStream((complete, fail) =>
+      this.streamChat(messages, options, complete, fail)
+    );
+  }
+
+  private async *streamChat(
+    messages: Message[],
+    options: ChatOptions | undefined,
+    complete: (result: ChatResult) => void,
+    fail: (error: Error) => void
+  ): AsyncGenerator<ChatStreamChunk> {
+    const channel = new StreamChannel<ChatStreamChunk>();
+    const transforms: Array<(chunk: ChatStreamChunk) => ChatStreamChunk> = [];
+    let outcome: Promise<ChatResult> | undefined;
+    let providerCalled = false;
+    let settled = false;
+
+    try {
+      if (!this.provider.chatStream) {
+        throw new AIClientError(
+          "Streaming not supported by this provider",
+          this.providerName
+        );
+      }
+
+      const { input, report } = await this.fitContext(
+        {
+          messages,
+          temperature: options?.temperature ?? this.config.temperature,
+          maxTokens: options?.maxTokens ?? this.config.maxTokens,
+          stream: true,
+          tools: options?.tools,
+          toolChoice: options?.toolChoice,
+          signal: options?.signal,
+        },
+        options?.contextWindow
+      );
+
+      const context: MiddlewareContext = {
+        operation: "stream",
+        provider: this.providerName,
+        model: this.config.model,
+        // Inner middleware sees events first, mirroring how results unwind
+        transformChunk: (transform) => transforms.unshift(transform),
+      };
+      outcome = this.runMiddleware(input, context, async (finalInput) => {
+        // Events from a second attempt would be appended to those already sent
+        if (providerCalled) {
+          throw new AIClientError("next() can only be called once per stream", this.providerName);
+        }
+        providerCalled = true;
+        return this.pumpStream(finalInput, report, channel);
+      });
+      outcome.then(
+        () => channel.close(),
+        (error) => channel.close(error)
+      );
+
+      let first = true;
+      const emit = (chunk: ChatStreamChunk): ChatStreamChunk => {
+        const transformed = transforms.reduce((current, transform) => transform(current), chunk);
+        const event = first && report ? { ...transformed, contextManagement: report } : transformed;
+        first = false;
+        return event;
+      };
+
+      for await (const chunk of channel) {
+        // Events may already be buffered when the caller aborts
+        if (input.signal?.aborted) {
+          throw new AbortError(undefined, this.providerName);
+        }
+        yield emit(chunk);
+      }
+      const result = await outcome;
+
+      // A middleware answered without calling the provider
+      if (!providerCalled) {
+        if (result.content) {
+          yield emit({ type: "text", content: result.content, done: false });
+        }
+        for (const [index, call] of (result.toolCalls || []).entries()) {
+          yield emit({
+            type: "tool_call",
+            content: "",
+            done: false,
+            toolCall: { index, id: call.id, name: call.name, arguments: JSON.stringify(call.arguments) },
+          });
+        }
+      }
+
+      // The finish event comes last, once usage has been recorded
+      settled = true;
+      complete(result);
+      yield emit({
+        type: "finish",
+        content: "",
+        done: true,
+        finishReason: result.finishReason,
+        model: result.model,
+      });
+    } catch (error: any) {
+      settled = true;
+      fail(error);
+      if (outcome && !(error instanceof AbortError)) {
+        yield { type: "error", content: "", done: true, error };
+      }
+      throw error;
+    } finally {
+      channel.cancel();
+      // The consumer stopped early; the provider stream settles with what arrived so far
+      if (!settled) {
+        outcome?.then(complete, fail);
+      }
+    }
+  }
+
+  private async pumpStream(
+    input: ChatPromptInput,
+    report: ContextManagementReport | undefined,
+    channel: StreamChannel<ChatStreamChunk>
+  ): Promise<ChatResult> {
+    const inputTokens = estimateMessagesTokens(input.messages);
+    let reservation = this.checkBudget(this.config.model, inputTokens, input.maxTokens);
+    const estimatedTokens = inputTokens + (input.maxTokens ?? 0);
 
     // Call request hooks
     for (const hook of this.requestHooks) {
@@ -455,27 +1790,240 @@ export class AIClient {
       }
     }
 
+    // Failures before the first event are retried and fall back like any other request
+    const timeout = this.config.timeout || 30000;
+    let stream: OpenStream;
+    let target: ProviderTarget;
     try {
-      const stream = this.provider.chatStream(input);
-      for await (const chunk of stream) {
-        yield chunk;
+      ({ value: stream, target } = await this.executeWithFallbacks(
+        (target, signal) => this.openStream(target, input, signal),
+        "chatStream",
+        {
+          estimatedTokens,
+          targets: [this.primaryTarget, ...this.fallbacks].filter(
+            (target) => target.provider.chatStream
+          ),
+          beforeFallback: (target) => {
+            this.budget?.release(reservation);
+            reservation = this.checkBudget(target.model, inputTokens, input.maxTokens);
+          },
+          signal: input.signal,
+          timeout: this.config.streamTimeouts?.firstToken ?? timeout,
+          // Nothing has reached the caller yet, so a stalled attempt is safe to repeat
+          retryTimeouts: true,
+        }
+      ));
+    } catch (error) {
+      this.budget?.release(reservation);
+      throw error;
+    }
+
+    const aggregator = new StreamAggregator();
+    const idleTimeout = this.config.streamTimeouts?.idle ?? timeout;
+    let completed = false;
+    try {
+      let next = stream.first;
+      while (!next.done) {
+        // Stop even if the provider ignores the signal
+        if (input.signal?.aborted) {
+          throw new AbortError(undefined, target.name);
+        }
+        const event = next.value;
+        const chunk: ChatStreamChunk = event.type ? event : { ...event, type: "text" };
+        aggregator.add(chunk);
+
+        // The finish event is re-emitted by the caller once the result is settled
+        if (chunk.type !== "finish" && !(await channel.push(chunk))) {
+          if (input.signal?.aborted) {
+            throw new AbortError(undefined, target.name);
+          }
+          break;
+        }
+        next = await this.nextStreamEvent(stream, idleTimeout, target.name);
       }
+      completed = next.done === true;
     } catch (error: any) {
-      // Call error hooks
+      this.budget?.release(reservation);
+      if (input.signal?.aborted) {
+        throw new AbortError(undefined, target.name);
+      }
+
+      // Errors before the first event already went through the retry loop's hooks
+      const providerError = toProviderError(error, target.name);
       for (const hook of this.errorHooks) {
         try {
-          hook(error);
+          hook(providerError);
         } catch (hookError) {
           // Ignore hook errors
         }
       }
+      throw providerError instanceof AIClientError
+        ? providerError
+        : new AIClientError(
+            `Streaming error: ${providerError.message}`,
+            target.name,
+            undefined,
+            providerError
+          );
+    } finally {
+      stream.release();
+      if (!completed) {
+        stream.controller.abort();
+        stream.iterator.return?.().catch(() => {});
+      }
+    }
+
+    const response = aggregator.toResult();
+    const model = response.model || target.model || this.config.model;
+    const result: ChatResult = {
+      ...response,
+      usage: this.recordUsage(model, response, 1, reservation),
+      provider: target.name,
+      model,
+      contextManagement: report,
+    };
+    this.updateRateLimiter(target, estimatedTokens, result);
+
+    // Call response hooks
+    for (const hook of this.responseHooks) {
+      try {
+        hook(result);
+      } catch (error) {
+        // Ignore hook errors
+      }
+    }
+
+    return result;
+  }
+
+  private async openStream(
+    target: ProviderTarget,
+    input: ChatPromptInput,
+    attemptSignal: AbortSignal
+  ): Promise<OpenStream> {
+    // The attempt signal stops firing once the first event arrives; this one covers the whole stream
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    attemptSignal.addEventListener("abort", abort, { once: true });
+    input.signal?.addEventListener("abort", abort, { once: true });
+    const release = () => input.signal?.removeEventListener("abort", abort);
+
+    const iterator = target.provider.chatStream!({ ...input, signal: controller.signal })[
+      Symbol.asyncIterator
+    ]();
+    try {
+      return { iterator, controller, release, first: await iterator.next() };
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  // Aborts the stream when the provider goes quiet for too long
+  private nextStreamEvent(
+    stream: OpenStream,
+    idleTimeout: number,
+    provider: string
+  ): Promise<IteratorResult<ChatStreamChunk>> {
+    const { signal } = stream.controller;
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(new AbortError(undefined, provider));
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        stream.controller.abort();
+        reject(new TimeoutError(`Stream was idle for more than ${idleTimeout}ms`, provider));
+      }, idleTimeout);
+      signal.addEventListener("abort", onAbort, { once: true });
+
+      stream.iterator.next().then(
+        (result) => {
+          cleanup();
+          resolve(result);
+        },
+        (error) => {
+          cleanup();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  async embed(texts: string | string[], options?: EmbedOptions): Promise<EmbedResult> {
+    if (!this.provider.embed) {
+      throw new AIClientError(
+        "Embeddings not supported by this provider",
+        this.providerName
+      );
+    }
+
+    // Embeddings have nothing to restore, so the redactor only swaps the values out
+    const redactor = this.redaction ? new Redactor(this.redaction) : undefined;
+    const inputs = (typeof texts === "string" ? [texts] : texts).map((text) =>
+      redactor ? redactor.redact(text) : text
+    );
+    const batchSize =
+      options?.batchSize ?? this.provider.embeddingBatchSize ?? (inputs.length || 1);
+    const model = options?.model ?? this.config.embeddingModel;
+
+    const embeddings: number[][] = [];
+    let tokensUsed: number | undefined;
+    let usage: TokenUsage | undefined;
+    let resultModel: string | undefined = model;
+
+    for (let start = 0; start < inputs.length; start += batchSize) {
+      const batch = inputs.slice(start, start + batchSize);
+      const reservation = this.checkBudget(
+        model,
+        batch.reduce((total, text) => total + estimateTokens(text), 0)
+      );
+      let result: EmbedResult;
+      try {
+        result = await this.executeWithRetry(
+          (signal) =>
+            this.provider.embed!({ texts: batch, model, dimensions: options?.dimensions, signal }),
+          "embed",
+          { signal: options?.signal }
+        );
+      } catch (error) {
+        this.budget?.release(reservation);
+        throw error;
+      }
+
+      embeddings.push(...result.embeddings);
+      resultModel = result.model || resultModel;
+      if (result.tokensUsed !== undefined) {
+        tokensUsed = (tokensUsed || 0) + result.tokensUsed;
+      }
+      usage = addUsage(usage, this.recordUsage(resultModel, result, 1, reservation));
+    }
+
+    return {
+      embeddings,
+      tokensUsed,
+      usage,
+      provider: this.providerName,
+      model: resultModel,
+      redaction: redactor?.report(),
+    };
+  }
+
+  async listModels(options?: AbortOptions): Promise<LocalModelInfo[]> {
+    if (!this.provider.listModels) {
       throw new AIClientError(
-        `Streaming error: ${error.message}`,
-        this.config.provider,
-        undefined,
-        error
+        "Listing models not supported by this provider",
+        this.providerName
       );
     }
+
+    return this.executeWithRetry((signal) => this.provider.listModels!(signal), "listModels", {
+      signal: options?.signal,
+    });
   }
 }
-
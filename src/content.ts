@@ -0,0 +1,65 @@
+import { AIClientError } from "./errors";
+import type { ContentPart, ImageContentPart, MessageContent } from "./types";
+
+export function getTextContent(content: MessageContent): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content
+    .filter((part): part is Extract<ContentPart, { type: "text" }> => part.type === "text")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+export function toContentParts(content: MessageContent): ContentPart[] {
+  return typeof content === "string" ? [{ type: "text", text: content }] : content;
+}
+
+export function toBase64(data: string | Buffer): string {
+  return typeof data === "string" ? data : data.toString("base64");
+}
+
+// Sniff common image and document signatures so callers can pass raw bytes
+export function detectMimeType(data: string | Buffer): string | undefined {
+  const bytes = typeof data === "string" ? Buffer.from(data.slice(0, 24), "base64") : data;
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return "image/png";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (bytes.subarray(0, 4).toString("ascii") === "GIF8") {
+    return "image/gif";
+  }
+  if (
+    bytes.subarray(0, 4).toString("ascii") === "RIFF" &&
+    bytes.subarray(8, 12).toString("ascii") === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  if (bytes.subarray(0, 4).toString("ascii") === "%PDF") {
+    return "application/pdf";
+  }
+  return undefined;
+}
+
+export function parseDataUrl(url: string): { mimeType: string; data: string } | undefined {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+  return match ? { mimeType: match[1], data: match[2] } : undefined;
+}
+
+// Resolves an image part to inline base64 data where possible
+export function resolveImage(
+  part: ImageContentPart
+): { mimeType: string; data: string } | { url: string; mimeType?: string } {
+  if (part.data !== undefined) {
+    return {
+      mimeType: part.mimeType || detectMimeType(part.data) || "image/jpeg",
+      data: toBase64(part.data),
+    };
+  }
+  if (part.url) {
+    return parseDataUrl(part.url) || { url: part.url, mimeType: part.mimeType };
+  }
+  throw new AIClientError("Image content requires either url or data");
+}
@@ -0,0 +1,82 @@
+import { getTextContent } from "./content";
+import { matchModelPrefix } from "./utils";
+import type { Message } from "./types";
+
+// Context window sizes in tokens, matched by longest model-name prefix
+export const MODEL_CONTEXT_LIMITS: Record<string, number> = {
+  "gpt-4o": 128000,
+  "gpt-4o-mini": 128000,
+  "gpt-4.1": 1047576,
+  "gpt-4-turbo": 128000,
+  "gpt-4": 8192,
+  "gpt-3.5-turbo": 16385,
+  "o1": 200000,
+  "o3": 200000,
+  "gemini-pro": 32760,
+  "gemini-1.0-pro": 32760,
+  "gemini-1.5-flash": 1048576,
+  "gemini-1.5-pro": 2097152,
+  "gemini-2.0-flash": 1048576,
+  "claude-3": 200000,
+  "claude-sonnet-4": 200000,
+  "claude-opus-4": 200000,
+  "llama3": 8192,
+  "llama3.1": 131072,
+  "llama3.2": 131072,
+};
+
+const DEFAULT_CONTEXT_LIMIT = 8192;
+
+// Rough per-message overhead for role and formatting tokens
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const IMAGE_TOKENS = 765;
+
+export function getContextLimit(
+  model: string | undefined,
+  overrides?: Record<string, number>
+): number {
+  return (
+    matchModelPrefix({ ...MODEL_CONTEXT_LIMITS, ...overrides }, model) ?? DEFAULT_CONTEXT_LIMIT
+  );
+}
+
+// Approximation of ~4 characters per token; good enough for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateMessagesTokens(messages: Message[]): number {
+  let total = 0;
+  for (const msg of messages) {
+    total += MESSAGE_OVERHEAD_TOKENS + estimateTokens(getTextContent(msg.content));
+    if (typeof msg.content !== "string") {
+      total += msg.content.filter((part) => part.type !== "text").length * IMAGE_TOKENS;
+    }
+    if (msg.toolCalls) {
+      total += estimateTokens(JSON.stringify(msg.toolCalls));
+    }
+  }
+  return total;
+}
+
+// Drops the oldest non-system messages until the history fits, keeping the latest message
+export function truncateMessages(
+  messages: Message[],
+  maxTokens: number
+): { messages: Message[]; removed: number } {
+  const system = messages.filter((msg) => msg.role === "system");
+  const rest = messages.filter((msg) => msg.role !== "system");
+  let removed = 0;
+
+  while (rest.length > 1 && estimateMessagesTokens([...system, ...rest]) > maxTokens) {
+    rest.shift();
+    removed++;
+    // Tool results cannot be sent without the call that requested them
+    while (rest.length > 1 && rest[0].role === "tool") {
+      rest.shift();
+      removed++;
+    }
+  }
+
+  return { messages: [...system, ...rest], removed };
+}
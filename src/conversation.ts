@@ -0,0 +1,114 @@
+import type { AIClient } from "./client";
+import type {
+  ChatOptions,
+  ChatResult,
+  ChatStreamChunk,
+  ConversationOptions,
+  ConversationState,
+  Message,
+  MessageContent,
+} from "./types";
+
+export class Conversation {
+  private history: Message[];
+  private options: ChatOptions;
+
+  constructor(
+    private readonly client: AIClient,
+    options?: ConversationOptions
+  ) {
+    this.history = options?.messages ? [...options.messages] : [];
+    if (options?.system && !this.history.some((msg) => msg.role === "system")) {
+      this.history.unshift({ role: "system", content: options.system });
+    }
+    this.options = {
+      temperature: options?.temperature,
+      maxTokens: options?.maxTokens,
+    };
+  }
+
+  static fromJSON(client: AIClient, state: ConversationState): Conversation {
+    return new Conversation(client, {
+      messages: state.messages,
+      temperature: state.temperature,
+      maxTokens: state.maxTokens,
+    });
+  }
+
+  get messages(): Message[] {
+    return [...this.history];
+  }
+
+  async send(content: MessageContent, options?: ChatOptions): Promise<ChatResult> {
+    const userMessage: Message = { role: "user", content };
+    const result = await this.client.chat([...this.history, userMessage], {
+      ...this.options,
+      ...options,
+    });
+
+    // Only record the turn once the call succeeded
+    this.history.push(userMessage, {
+      role: "assistant",
+      content: result.content,
+      toolCalls: result.toolCalls,
+    });
+    return result;
+  }
+
+  async *sendStream(
+    content: MessageContent,
+    options?: ChatOptions
+  ): AsyncIterable<ChatStreamChunk> {
+    const userMessage: Message = { role: "user", content };
+    const stream = this.client.chatStream([...this.history, userMessage], {
+      ...this.options,
+      ...options,
+    });
+
+    yield* stream;
+
+    const result = await stream.finalResult();
+    this.history.push(userMessage, {
+      role: "assistant",
+      content: result.content,
+      toolCalls: result.toolCalls,
+    });
+  }
+
+  fork(): Conversation {
+    return new Conversation(this.client, {
+      messages: this.history,
+      temperature: this.options.temperature,
+      maxTokens: this.options.maxTokens,
+    });
+  }
+
+  // Removes the last user turn and everything after it
+  undo(): Message[] {
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      if (this.history[i].role === "user") {
+        return this.history.splice(i);
+      }
+    }
+    return [];
+  }
+
+  clear(): void {
+    this.history = this.history.filter((msg) => msg.role === "system");
+  }
+
+  toJSON(): ConversationState {
+    return {
+      // Buffers in content parts are stored as base64 strings
+      messages: JSON.parse(
+        JSON.stringify(this.history, (_key, value) =>
+          value?.type === "Buffer" && Array.isArray(value.data)
+            ? Buffer.from(value.data).toString("base64")
+            : value
+        )
+      ),
+      temperature: this.options.temperature,
+      maxTokens: this.options.maxTokens,
+    };
+  }
+}
@@ -1,3 +1,5 @@
+import type { InjectionReport, ProviderErrorDetails, RetryAttempt } from "./types";
+
 export class AIClientError extends Error {
   constructor(
     message: string,
@@ -19,12 +21,21 @@ export class TimeoutError extends AIClientError {
   }
 }
 
+export class AbortError extends AIClientError {
+  constructor(message: string = "Request was aborted", provider?: string) {
+    super(message, provider);
+    this.name = "AbortError";
+    Object.setPrototypeOf(this, AbortError.prototype);
+  }
+}
+
 export class RetryError extends AIClientError {
   constructor(
     message: string,
     public readonly retries: number,
     provider?: string,
-    originalError?: Error
+    originalError?: Error,
+    public readonly attempts: RetryAttempt[] = []
   ) {
     super(message, provider, undefined, originalError);
     this.name = "RetryError";
@@ -32,3 +43,119 @@ export class RetryError extends AIClientError {
   }
 }
 
+// Base for failures reported by a provider's API
+export class ProviderError extends AIClientError {
+  public readonly requestId?: string;
+  public readonly body?: unknown; // Raw error body from the provider
+
+  constructor(message: string, details: ProviderErrorDetails = {}) {
+    super(message, details.provider, details.statusCode, details.originalError);
+    this.requestId = details.requestId;
+    this.body = details.body;
+    this.name = "ProviderError";
+    Object.setPrototypeOf(this, ProviderError.prototype);
+  }
+}
+
+export class AuthenticationError extends ProviderError {
+  constructor(message: string, details?: ProviderErrorDetails) {
+    super(message, details);
+    this.name = "AuthenticationError";
+    Object.setPrototypeOf(this, AuthenticationError.prototype);
+  }
+}
+
+export class RateLimitError extends ProviderError {
+  constructor(
+    message: string,
+    details?: ProviderErrorDetails,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message, details);
+    this.name = "RateLimitError";
+    Object.setPrototypeOf(this, RateLimitError.prototype);
+  }
+}
+
+export class ContextLengthExceededError extends ProviderError {
+  constructor(message: string, details?: ProviderErrorDetails) {
+    super(message, details);
+    this.name = "ContextLengthExceededError";
+    Object.setPrototypeOf(this, ContextLengthExceededError.prototype);
+  }
+}
+
+export class ContentFilteredError extends ProviderError {
+  constructor(message: string, details?: ProviderErrorDetails) {
+    super(message, details);
+    this.name = "ContentFilteredError";
+    Object.setPrototypeOf(this, ContentFilteredError.prototype);
+  }
+}
+
+export class InvalidRequestError extends ProviderError {
+  constructor(message: string, details?: ProviderErrorDetails) {
+    super(message, details);
+    this.name = "InvalidRequestError";
+    Object.setPrototypeOf(this, InvalidRequestError.prototype);
+  }
+}
+
+export class ProviderUnavailableError extends ProviderError {
+  constructor(message: string, details?: ProviderErrorDetails) {
+    super(message, details);
+    this.name = "ProviderUnavailableError";
+    Object.setPrototypeOf(this, ProviderUnavailableError.prototype);
+  }
+}
+
+export class CircuitOpenError extends AIClientError {
+  constructor(
+    message: string,
+    public readonly retryAt: Date,
+    provider?: string
+  ) {
+    super(message, provider);
+    this.name = "CircuitOpenError";
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+export class SchemaValidationError extends AIClientError {
+  constructor(
+    message: string,
+    public readonly errors: string[],
+    public readonly content: string,
+    provider?: string
+  ) {
+    super(message, provider);
+    this.name = "SchemaValidationError";
+    Object.setPrototypeOf(this, SchemaValidationError.prototype);
+  }
+}
+
+export class BudgetExceededError extends AIClientError {
+  constructor(
+    message: string,
+    public readonly window: "perRequest" | "perMinute" | "lifetime",
+    public readonly metric: "tokens" | "cost",
+    public readonly limit: number,
+    public readonly projected: number,
+    provider?: string
+  ) {
+    super(message, provider);
+    this.name = "BudgetExceededError";
+    Object.setPrototypeOf(this, BudgetExceededError.prototype);
+  }
+}
+
+export class PromptInjectionError extends AIClientError {
+  constructor(
+    message: string,
+    public readonly report: InjectionReport
+  ) {
+    super(message);
+    this.name = "PromptInjectionError";
+    Object.setPrototypeOf(this, PromptInjectionError.prototype);
+  }
+}
@@ -1,4 +1,37 @@
 export { AIClient } from "./client";
-export { AIClientError, TimeoutError, RetryError } from "./errors";
+export { Conversation } from "./conversation";
+export {
+  AIClientError,
+  AbortError,
+  TimeoutError,
+  RetryError,
+  SchemaValidationError,
+  BudgetExceededError,
+  ProviderError,
+  AuthenticationError,
+  RateLimitError,
+  ContextLengthExceededError,
+  ContentFilteredError,
+  InvalidRequestError,
+  ProviderUnavailableError,
+  CircuitOpenError,
+  PromptInjectionError,
+} from "./errors";
+export { createProviderError, toProviderError } from "./provider-errors";
+export { validateSchema } from "./schema";
+export { PROMPT_TEMPLATES } from "./prompts/presets";
+export { cosineSimilarity, topK } from "./similarity";
+export { MODEL_PRICING, BATCH_PRICE_MULTIPLIER, calculateCost } from "./pricing";
+export { MODEL_CONTEXT_LIMITS, estimateTokens, estimateMessagesTokens } from "./context";
+export { MemoryCacheStore, FileCacheStore } from "./cache";
+export { RateLimiter, parseRateLimitHeaders } from "./rate-limiter";
+export { ChatStream } from "./stream";
+export { Redactor, PII_PATTERNS, createRedactionMiddleware } from "./redaction";
+export { INJECTION_PATTERNS, assessInjectionRisk } from "./injection";
+export { BaseProvider } from "./providers/base";
+export {
+  registerProvider,
+  unregisterProvider,
+  listProviders,
+} from "./providers/registry";
 export * from "./types";
-
@@ -0,0 +1,60 @@
+import type { InjectionGuardOptions, InjectionPattern, InjectionReport } from "./types";
+
+const DEFAULT_THRESHOLD = 0.5;
+
+// Phrasings common in prompt injection attempts; none of them is proof on its own
+export const INJECTION_PATTERNS: InjectionPattern[] = [
+  {
+    name: "ignoreInstructions",
+    pattern:
+      /\b(?:ignore|disregard|forget|override)\b[^.\n]{0,40}?\b(?:previous|prior|above|earlier|preceding|all|any|your|the)\b[^.\n]{0,20}?\b(?:instructions?|prompts?|rules|directions|guidelines)\b/i,
+    weight: 0.8,
+  },
+  {
+    name: "revealPrompt",
+    pattern:
+      /\b(?:reveal|show|print|repeat|output|tell me)\b[^.\n]{0,30}?\b(?:system prompt|your instructions|hidden instructions|initial prompt)\b/i,
+    weight: 0.6,
+  },
+  {
+    name: "jailbreak",
+    pattern: /\b(?:jailbreak|developer mode|do anything now|DAN mode)\b/i,
+    weight: 0.6,
+  },
+  {
+    name: "roleMarker",
+    // Chat-format markers and the delimiters the prompt templates use
+    pattern:
+      /(?:^|\n)\s*(?:system|assistant)\s*:|<\/?(?:system|assistant|document|context|question)>|\[\/?INST\]|<\|im_(?:start|end)\|>/i,
+    weight: 0.5,
+  },
+  {
+    name: "roleOverride",
+    pattern: /\b(?:you are now|from now on,? you|pretend (?:to be|you are)|act as (?:a|an|if))\b/i,
+    weight: 0.4,
+  },
+  {
+    name: "newInstructions",
+    pattern: /\b(?:new|updated|real|actual) (?:instructions|task|objective)\b/i,
+    weight: 0.4,
+  },
+];
+
+// Matches combine like independent signals: 1 - (1 - w1)(1 - w2)...
+export function assessInjectionRisk(
+  text: string,
+  options: InjectionGuardOptions = {}
+): InjectionReport {
+  const matches: string[] = [];
+  let clean = 1;
+  for (const { name, pattern, weight } of [...INJECTION_PATTERNS, ...(options.patterns || [])]) {
+    pattern.lastIndex = 0;
+    if (pattern.test(text)) {
+      matches.push(name);
+      clean *= 1 - Math.min(Math.max(weight, 0), 1);
+    }
+  }
+
+  const score = Math.round((1 - clean) * 100) / 100;
+  return { score, flagged: score >= (options.threshold ?? DEFAULT_THRESHOLD), matches };
+}
@@ -0,0 +1,66 @@
+import { matchModelPrefix } from "./utils";
+import type { ModelPricing, TokenUsage, UsageSummary } from "./types";
+
+// USD per million tokens, matched by longest model-name prefix.
+// Prices change; override them with AIClientConfig.pricing.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "gpt-4.1": { inputPerMillion: 2, outputPerMillion: 8 },
+  "gpt-4.1-mini": { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  "gpt-4.1-nano": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  "gpt-4-turbo": { inputPerMillion: 10, outputPerMillion: 30 },
+  "gpt-3.5-turbo": { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  "text-embedding-3-small": { inputPerMillion: 0.02, outputPerMillion: 0 },
+  "text-embedding-3-large": { inputPerMillion: 0.13, outputPerMillion: 0 },
+  "gemini-1.5-flash": { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  "gemini-1.5-pro": { inputPerMillion: 1.25, outputPerMillion: 5 },
+  "gemini-2.0-flash": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  "claude-3-haiku": { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+  "claude-3-5-haiku": { inputPerMillion: 0.8, outputPerMillion: 4 },
+  "claude-3-5-sonnet": { inputPerMillion: 3, outputPerMillion: 15 },
+  "claude-3-7-sonnet": { inputPerMillion: 3, outputPerMillion: 15 },
+  "claude-sonnet-4": { inputPerMillion: 3, outputPerMillion: 15 },
+  "claude-3-opus": { inputPerMillion: 15, outputPerMillion: 75 },
+  "claude-opus-4": { inputPerMillion: 15, outputPerMillion: 75 },
+};
+
+// Asynchronous batch jobs are billed at half the live price
+export const BATCH_PRICE_MULTIPLIER = 0.5;
+
+export function calculateCost(
+  model: string | undefined,
+  usage: TokenUsage,
+  overrides?: Record<string, ModelPricing>
+): number | undefined {
+  const pricing = matchModelPrefix({ ...MODEL_PRICING, ...overrides }, model);
+  if (!pricing) {
+    return undefined;
+  }
+  return (
+    (usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) /
+    1_000_000
+  );
+}
+
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    cost: a.cost !== undefined || b.cost !== undefined ? (a.cost || 0) + (b.cost || 0) : undefined,
+  };
+}
+
+export function emptyUsageSummary(): UsageSummary {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    byModel: {},
+  };
+}
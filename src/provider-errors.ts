@@ -0,0 +1,124 @@
+import {
+  AIClientError,
+  AuthenticationError,
+  ContentFilteredError,
+  ContextLengthExceededError,
+  InvalidRequestError,
+  ProviderError,
+  ProviderUnavailableError,
+  RateLimitError,
+} from "./errors";
+import { parseRateLimitHeaders, readHeader } from "./rate-limiter";
+import type { ProviderErrorDetails } from "./types";
+
+// Providers word these differently, so match on the message and error body
+const CONTEXT_LENGTH_PATTERN =
+  /context_length_exceeded|context length|context window|prompt is too long|maximum number of tokens/i;
+const CONTENT_FILTER_PATTERN =
+  /content_filter|content_policy|content management policy|safety system|blocked due to|response was blocked/i;
+const INVALID_API_KEY_PATTERN = /api_key_invalid|api key not valid|invalid api key|invalid x-api-key/i;
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+]);
+
+function describeBody(body: unknown): string {
+  if (body === undefined || body === null) return "";
+  if (typeof body === "string") return body;
+  try {
+    return JSON.stringify(body);
+  } catch (error) {
+    return "";
+  }
+}
+
+function isNetworkError(error: any): boolean {
+  const code = error.code ?? error.cause?.code;
+  // The SDKs report connection failures without a status
+  const type = error.constructor?.name;
+  return (
+    NETWORK_ERROR_CODES.has(code) ||
+    type === "APIConnectionError" ||
+    type === "APIConnectionTimeoutError" ||
+    (type === "GoogleGenerativeAIError" && /Error fetching from/.test(error.message))
+  );
+}
+
+// Picks the error class for a provider failure from its status code and message
+export function createProviderError(
+  message: string,
+  details: ProviderErrorDetails = {},
+  retryAfterMs?: number
+): ProviderError {
+  const { statusCode } = details;
+  if (statusCode === 401 || statusCode === 403) {
+    return new AuthenticationError(message, details);
+  }
+  if (statusCode === 429) {
+    return new RateLimitError(message, details, retryAfterMs);
+  }
+  if (statusCode === 408 || statusCode === 409 || (statusCode !== undefined && statusCode >= 500)) {
+    return new ProviderUnavailableError(message, details);
+  }
+
+  const text = `${message} ${describeBody(details.body)}`;
+  if (CONTEXT_LENGTH_PATTERN.test(text)) {
+    return new ContextLengthExceededError(message, details);
+  }
+  if (CONTENT_FILTER_PATTERN.test(text)) {
+    return new ContentFilteredError(message, details);
+  }
+  if (INVALID_API_KEY_PATTERN.test(text)) {
+    return new AuthenticationError(message, details);
+  }
+  return statusCode === undefined
+    ? new ProviderUnavailableError(message, details)
+    : new InvalidRequestError(message, details);
+}
+
+// Normalises SDK, HTTP and network errors; anything else is returned unchanged
+export function toProviderError(error: any, provider?: string): Error {
+  if (!error || error instanceof ProviderError) {
+    return error;
+  }
+
+  const status = error.status ?? error.statusCode ?? error.response?.status;
+  const statusCode = typeof status === "number" ? status : undefined;
+  // Errors raised by this library (timeouts, aborts, validation) already say what went wrong
+  if (error instanceof AIClientError && statusCode === undefined) {
+    return error;
+  }
+
+  const headers = error.headers ?? error.response?.headers;
+  const details: ProviderErrorDetails = {
+    provider: error.provider ?? provider,
+    statusCode,
+    requestId:
+      error.request_id ??
+      error.requestID ??
+      readHeader(headers, "x-request-id") ??
+      readHeader(headers, "request-id") ??
+      undefined,
+    body: error.error ?? error.errorDetails ?? error.body ?? error.response?.data,
+    originalError: error,
+  };
+
+  if (statusCode !== undefined) {
+    return createProviderError(error.message, details, parseRateLimitHeaders(headers)?.retryAfterMs);
+  }
+  if (isNetworkError(error)) {
+    return new ProviderUnavailableError(error.message, details);
+  }
+  // Gemini reports safety blocks as response errors without a status
+  if (
+    error.constructor?.name === "GoogleGenerativeAIResponseError" &&
+    CONTENT_FILTER_PATTERN.test(error.message)
+  ) {
+    return new ContentFilteredError(error.message, { ...details, body: error.response });
+  }
+  return error;
+}
@@ -0,0 +1,213 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { BaseProvider } from "./base";
+import { AIClientError } from "../errors";
+import { getTextContent, resolveImage, toBase64 } from "../content";
+import type { ChatPromptInput, ChatResult, ChatStreamChunk, ContentPart, ToolCall } from "../types";
+
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 1024;
+
+export class AnthropicProvider extends BaseProvider {
+  readonly name = "anthropic";
+  private client: Anthropic;
+
+  constructor(apiKey: string, model: string = "claude-3-5-haiku-latest", baseUrl?: string) {
+    super(apiKey, model, baseUrl);
+    this.client = new Anthropic({
+      apiKey: this.apiKey,
+      baseURL: this.baseUrl,
+    });
+  }
+
+  private buildContentBlock(part: ContentPart): Anthropic.ContentBlockParam {
+    if (part.type === "text") {
+      return { type: "text", text: part.text };
+    }
+    if (part.type === "image") {
+      const image = resolveImage(part);
+      return {
+        type: "image",
+        source:
+          "url" in image
+            ? { type: "url", url: image.url }
+            : {
+                type: "base64",
+                media_type: image.mimeType as Anthropic.Base64ImageSource["media_type"],
+                data: image.data,
+              },
+      };
+    }
+    if (part.mimeType !== "application/pdf") {
+      throw new AIClientError(`Unsupported file type for Anthropic: ${part.mimeType}`, this.name);
+    }
+    return {
+      type: "document",
+      source: { type: "base64", media_type: "application/pdf", data: toBase64(part.data) },
+      title: part.filename,
+    };
+  }
+
+  private buildRequest(input: ChatPromptInput) {
+    // System messages go to the top-level system field
+    let system: string | undefined;
+    const messages: Anthropic.MessageParam[] = [];
+
+    for (const msg of input.messages) {
+      if (msg.role === "system") {
+        system = (system ? system + "\n" : "") + getTextContent(msg.content);
+      } else if (msg.role === "tool") {
+        const block: Anthropic.ToolResultBlockParam = {
+          type: "tool_result",
+          tool_use_id: msg.toolCallId || "",
+          content: getTextContent(msg.content),
+        };
+        // Tool results are sent back as a single user turn
+        const previous = messages[messages.length - 1];
+        if (previous?.role === "user" && Array.isArray(previous.content)) {
+          previous.content.push(block);
+        } else {
+          messages.push({ role: "user", content: [block] });
+        }
+      } else if (msg.role === "assistant" && msg.toolCalls?.length) {
+        const blocks: Anthropic.ContentBlockParam[] = [];
+        const text = getTextContent(msg.content);
+        if (text) {
+          blocks.push({ type: "text", text });
+        }
+        for (const call of msg.toolCalls) {
+          blocks.push({ type: "tool_use", id: call.id, name: call.name, input: call.arguments });
+        }
+        messages.push({ role: "assistant", content: blocks });
+      } else {
+        messages.push({
+          role: msg.role,
+          content:
+            typeof msg.content === "string"
+              ? msg.content
+              : msg.content.map((part) => this.buildContentBlock(part)),
+        });
+      }
+    }
+
+    return {
+      model: this.model,
+      messages,
+      system,
+      temperature: input.temperature,
+      max_tokens: input.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...this.buildToolParams(input),
+    };
+  }
+
+  private buildToolParams(input: ChatPromptInput) {
+    if (!input.tools?.length) {
+      return {};
+    }
+
+    const tools: Anthropic.Tool[] = input.tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: {
+        type: "object" as const,
+        ...tool.parameters,
+      },
+    }));
+
+    let toolChoice: Anthropic.ToolChoice | undefined;
+    if (typeof input.toolChoice === "object") {
+      toolChoice = { type: "tool", name: input.toolChoice.name };
+    } else if (input.toolChoice === "required") {
+      toolChoice = { type: "any" };
+    } else if (input.toolChoice) {
+      toolChoice = { type: input.toolChoice };
+    }
+
+    return { tools, tool_choice: toolChoice };
+  }
+
+  async chat(input: ChatPromptInput): Promise<ChatResult> {
+    const response = await this.client.messages.create(this.buildRequest(input), {
+      signal: input.signal,
+    });
+
+    const content = response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+
+    const toolCalls: ToolCall[] = [];
+    for (const block of response.content) {
+      if (block.type === "tool_use") {
+        toolCalls.push({
+          id: block.id,
+          name: block.name,
+          arguments: (block.input as Record<string, any>) || {},
+        });
+      }
+    }
+
+    return {
+      content,
+      tokensUsed: response.usage.input_tokens + response.usage.output_tokens,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+      },
+      model: response.model,
+      finishReason: response.stop_reason || undefined,
+      toolCalls: toolCalls.length ? toolCalls : undefined,
+    };
+  }
+
+  async *chatStream(input: ChatPromptInput): AsyncIterable<ChatStreamChunk> {
+    const stream = await this.client.messages.create(
+      { ...this.buildRequest(input), stream: true },
+      { signal: input.signal }
+    );
+
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let model: string | undefined;
+    let finishReason: string | undefined;
+
+    for await (const event of stream) {
+      if (event.type === "message_start") {
+        inputTokens = event.message.usage.input_tokens;
+        model = event.message.model;
+      } else if (event.type === "content_block_start" && event.content_block.type === "tool_use") {
+        yield {
+          type: "tool_call",
+          content: "",
+          done: false,
+          toolCall: {
+            index: event.index,
+            id: event.content_block.id,
+            name: event.content_block.name,
+            arguments: "",
+          },
+        };
+      } else if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        yield { type: "text", content: event.delta.text, done: false };
+      } else if (event.type === "content_block_delta" && event.delta.type === "input_json_delta") {
+        yield {
+          type: "tool_call",
+          content: "",
+          done: false,
+          toolCall: { index: event.index, arguments: event.delta.partial_json },
+        };
+      } else if (event.type === "message_delta") {
+        // Output tokens are cumulative, reported with the stop reason
+        outputTokens = event.usage.output_tokens;
+        finishReason = event.delta.stop_reason || finishReason;
+      }
+    }
+
+    yield {
+      type: "usage",
+      content: "",
+      done: false,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+    };
+    yield { type: "finish", content: "", done: true, finishReason, model };
+  }
+}
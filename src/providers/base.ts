@@ -11,10 +11,10 @@ export abstract class BaseProvider implements LLMProvider {
     this.baseUrl = baseUrl;
   }
 
+  abstract readonly name: string;
+
   abstract chat(input: ChatPromptInput): Promise<ChatResult>;
-  
-  async chatStream?(input: ChatPromptInput): AsyncIterable<ChatStreamChunk> {
-    throw new Error("Streaming not implemented for this provider");
-  }
+
+  chatStream?(input: ChatPromptInput): AsyncIterable<ChatStreamChunk>;
 }
 
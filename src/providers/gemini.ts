@@ -1,19 +1,95 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { EmbedContentRequest, RequestOptions } from "@google/generative-ai";
 import { BaseProvider } from "./base";
-import type { ChatPromptInput, ChatResult, ChatStreamChunk, Message } from "../types";
+import { AIClientError, ContentFilteredError } from "../errors";
+import { getTextContent, resolveImage, toBase64, toContentParts } from "../content";
+import type {
+  ChatPromptInput,
+  ChatResult,
+  ChatStreamChunk,
+  ContentPart,
+  EmbedInput,
+  EmbedResult,
+  JSONSchema,
+  TokenUsage,
+  ToolCall,
+} from "../types";
+
+// Fields the embedding API accepts but the SDK's request type omits
+interface GeminiEmbedRequest extends EmbedContentRequest {
+  model: string;
+  outputDimensionality?: number;
+}
+
+// Gemini accepts an OpenAPI subset of JSON Schema with upper-case type names
+function toGeminiSchema(schema: JSONSchema): JSONSchema {
+  const result: JSONSchema = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === "type") {
+      const types: string[] = Array.isArray(value) ? value : [value];
+      const nonNull = types.filter((type) => type !== "null");
+      result.type = (nonNull[0] || "string").toUpperCase();
+      if (nonNull.length < types.length) {
+        result.nullable = true;
+      }
+    } else if (key === "properties") {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, JSONSchema>).map(([name, property]) => [
+          name,
+          toGeminiSchema(property),
+        ])
+      );
+    } else if (key === "items") {
+      result.items = toGeminiSchema(value);
+    } else if (["description", "enum", "required", "format", "nullable"].includes(key)) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function isGeminiFileUri(url: string): boolean {
+  return url.startsWith("gs://") || url.startsWith("https://generativelanguage.googleapis.com/");
+}
+
+function toGeminiPart(part: ContentPart): any {
+  if (part.type === "text") {
+    return { text: part.text };
+  }
+  if (part.type === "image") {
+    const image = resolveImage(part);
+    if (!("url" in image)) {
+      return { inlineData: { mimeType: image.mimeType, data: image.data } };
+    }
+    // Remote images must be Gemini File API or Cloud Storage URIs
+    if (!isGeminiFileUri(image.url)) {
+      throw new AIClientError(
+        "Gemini only accepts File API or Cloud Storage URIs for remote images; pass inline image data instead",
+        "gemini"
+      );
+    }
+    return { fileData: { mimeType: image.mimeType || "image/jpeg", fileUri: image.url } };
+  }
+  return { inlineData: { mimeType: part.mimeType, data: toBase64(part.data) } };
+}
 
 export class GeminiProvider extends BaseProvider {
+  readonly name = "gemini";
+  readonly embeddingBatchSize = 100;
   private client: GoogleGenerativeAI;
   private genModel: any;
 
   constructor(apiKey: string, model: string = "gemini-pro", baseUrl?: string) {
     super(apiKey, model, baseUrl);
     this.client = new GoogleGenerativeAI(this.apiKey);
-    this.genModel = this.client.getGenerativeModel({ model: this.model });
+    this.genModel = this.client.getGenerativeModel({ model: this.model }, this.requestOptions);
   }
 
+  private get requestOptions(): RequestOptions | undefined {
+    return this.baseUrl ? { baseUrl: this.baseUrl } : undefined;
+  }
 
-  async chat(input: ChatPromptInput): Promise<ChatResult> {
+  private buildRequest(input: ChatPromptInput): any {
     const generationConfig: any = {};
     if (input.temperature !== undefined) {
       generationConfig.temperature = input.temperature;
@@ -21,6 +97,12 @@ export class GeminiProvider extends BaseProvider {
     if (input.maxTokens !== undefined) {
       generationConfig.maxOutputTokens = input.maxTokens;
     }
+    if (input.responseFormat) {
+      generationConfig.responseMimeType = "application/json";
+      if (input.responseFormat.schema) {
+        generationConfig.responseSchema = toGeminiSchema(input.responseFormat.schema);
+      }
+    }
 
     // Convert messages to Gemini format
     const contents: any[] = [];
@@ -28,13 +110,30 @@ export class GeminiProvider extends BaseProvider {
 
     for (const msg of input.messages) {
       if (msg.role === "system") {
-        systemInstruction = (systemInstruction || "") + msg.content + "\n";
+        systemInstruction = (systemInstruction || "") + getTextContent(msg.content) + "\n";
+      } else if (msg.role === "tool") {
+        const part = {
+          functionResponse: {
+            name: msg.name,
+            response: { name: msg.name, content: getTextContent(msg.content) },
+          },
+        };
+        // Responses to parallel calls belong in a single turn
+        const previous = contents[contents.length - 1];
+        if (previous?.role === "function") {
+          previous.parts.push(part);
+        } else {
+          contents.push({ role: "function", parts: [part] });
+        }
       } else {
         const role = msg.role === "assistant" ? "model" : "user";
-        contents.push({
-          role,
-          parts: [{ text: msg.content }],
-        });
+        const parts: any[] = toContentParts(msg.content)
+          .filter((part) => part.type !== "text" || part.text)
+          .map(toGeminiPart);
+        for (const call of msg.toolCalls || []) {
+          parts.push({ functionCall: { name: call.name, args: call.arguments } });
+        }
+        contents.push({ role, parts });
       }
     }
 
@@ -49,63 +148,137 @@ export class GeminiProvider extends BaseProvider {
       };
     }
 
-    const result = await this.genModel.generateContent(requestOptions);
+    if (input.tools?.length) {
+      requestOptions.tools = [
+        {
+          functionDeclarations: input.tools.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters && toGeminiSchema(tool.parameters),
+          })),
+        },
+      ];
+
+      if (input.toolChoice) {
+        const modes = { auto: "AUTO", none: "NONE", required: "ANY" } as const;
+        requestOptions.toolConfig = {
+          functionCallingConfig:
+            typeof input.toolChoice === "object"
+              ? { mode: "ANY", allowedFunctionNames: [input.toolChoice.name] }
+              : { mode: modes[input.toolChoice] },
+        };
+      }
+    }
+
+    return requestOptions;
+  }
+
+  async chat(input: ChatPromptInput): Promise<ChatResult> {
+    const result = await this.genModel.generateContent(this.buildRequest(input), {
+      signal: input.signal,
+    });
     const response = result.response;
-    const text = response.text();
+    if (response.promptFeedback?.blockReason) {
+      throw new ContentFilteredError(`Prompt was blocked due to ${response.promptFeedback.blockReason}`, {
+        provider: this.name,
+        body: response,
+      });
+    }
+    const parts: any[] = response.candidates?.[0]?.content?.parts || [];
+
+    const text = parts.map((part) => part.text || "").join("");
+    // Gemini does not assign call IDs, so derive stable ones from the position
+    const toolCalls: ToolCall[] = parts
+      .filter((part) => part.functionCall)
+      .map((part, index) => ({
+        id: `call_${index}`,
+        name: part.functionCall.name,
+        arguments: part.functionCall.args || {},
+      }));
 
     return {
       content: text,
       tokensUsed: response.usageMetadata?.totalTokenCount,
+      usage: response.usageMetadata && {
+        inputTokens: response.usageMetadata.promptTokenCount || 0,
+        outputTokens: response.usageMetadata.candidatesTokenCount || 0,
+        totalTokens: response.usageMetadata.totalTokenCount || 0,
+      },
       model: this.model,
       finishReason: response.candidates?.[0]?.finishReason,
+      toolCalls: toolCalls.length ? toolCalls : undefined,
     };
   }
 
   async *chatStream(input: ChatPromptInput): AsyncIterable<ChatStreamChunk> {
-    const generationConfig: any = {};
-    if (input.temperature !== undefined) {
-      generationConfig.temperature = input.temperature;
-    }
-    if (input.maxTokens !== undefined) {
-      generationConfig.maxOutputTokens = input.maxTokens;
-    }
+    const result = await this.genModel.generateContentStream(this.buildRequest(input), {
+      signal: input.signal,
+    });
 
-    // Convert messages to Gemini format
-    const contents: any[] = [];
-    let systemInstruction: string | undefined;
+    let finishReason: string | undefined;
+    let usage: TokenUsage | undefined;
+    let toolCallIndex = 0;
 
-    for (const msg of input.messages) {
-      if (msg.role === "system") {
-        systemInstruction = (systemInstruction || "") + msg.content + "\n";
-      } else {
-        const role = msg.role === "assistant" ? "model" : "user";
-        contents.push({
-          role,
-          parts: [{ text: msg.content }],
-        });
+    for await (const chunk of result.stream) {
+      const candidate = chunk.candidates?.[0];
+      // Only the final chunk carries a finish reason; earlier ones leave it undefined
+      finishReason = candidate?.finishReason || finishReason;
+      if (chunk.usageMetadata) {
+        usage = {
+          inputTokens: chunk.usageMetadata.promptTokenCount || 0,
+          outputTokens: chunk.usageMetadata.candidatesTokenCount || 0,
+          totalTokens: chunk.usageMetadata.totalTokenCount || 0,
+        };
       }
-    }
 
-    const requestOptions: any = {
-      contents,
-      generationConfig,
-    };
+      const parts: any[] = candidate?.content?.parts || [];
+      for (const part of parts) {
+        if (part.text) {
+          yield { type: "text", content: part.text, done: false };
+        }
+        // Function calls arrive whole rather than as deltas
+        if (part.functionCall) {
+          const index = toolCallIndex++;
+          yield {
+            type: "tool_call",
+            content: "",
+            done: false,
+            toolCall: {
+              index,
+              id: `call_${index}`,
+              name: part.functionCall.name,
+              arguments: JSON.stringify(part.functionCall.args || {}),
+            },
+          };
+        }
+      }
+    }
 
-    if (systemInstruction) {
-      requestOptions.systemInstruction = {
-        parts: [{ text: systemInstruction.trim() }],
-      };
+    if (usage) {
+      yield { type: "usage", content: "", done: false, usage };
     }
+    yield { type: "finish", content: "", done: true, finishReason, model: this.model };
+  }
 
-    const result = await this.genModel.generateContentStream(requestOptions);
+  async embed(input: EmbedInput): Promise<EmbedResult> {
+    const model = input.model || "text-embedding-004";
+    const embedModel = this.client.getGenerativeModel({ model }, this.requestOptions);
 
-    for await (const chunk of result.stream) {
-      const text = chunk.text();
-      yield {
-        content: text,
-        done: chunk.candidates?.[0]?.finishReason !== null,
-      };
+    const requests = input.texts.map((text): GeminiEmbedRequest => ({
+      model: `models/${model}`,
+      content: { role: "user", parts: [{ text }] },
+      outputDimensionality: input.dimensions,
+    }));
+
+    if (requests.length === 1) {
+      const response = await embedModel.embedContent(requests[0], { signal: input.signal });
+      return { embeddings: [response.embedding.values], model };
     }
+
+    const response = await embedModel.batchEmbedContents({ requests }, { signal: input.signal });
+    return {
+      embeddings: response.embeddings.map((embedding) => embedding.values),
+      model,
+    };
   }
 }
-
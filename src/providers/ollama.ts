@@ -0,0 +1,245 @@
+import { BaseProvider } from "./base";
+import { AIClientError } from "../errors";
+import { createProviderError } from "../provider-errors";
+import { getTextContent, resolveImage } from "../content";
+import type {
+  ChatPromptInput,
+  ChatResult,
+  ChatStreamChunk,
+  EmbedInput,
+  EmbedResult,
+  LocalModelInfo,
+  MessageContent,
+  ToolCall,
+} from "../types";
+
+export class OllamaProvider extends BaseProvider {
+  readonly name = "ollama";
+
+  constructor(
+    apiKey: string = "",
+    model: string = "llama3.1",
+    baseUrl: string = "http://localhost:11434"
+  ) {
+    super(apiKey, model, baseUrl.replace(/\/+$/, ""));
+  }
+
+  private async request(path: string, body?: unknown, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    // Ollama itself is unauthenticated, but it is often put behind a proxy
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw createProviderError(
+        `Ollama request failed with status ${response.status}: ${text || response.statusText}`,
+        { provider: this.name, statusCode: response.status, body: text }
+      );
+    }
+
+    return response;
+  }
+
+  private buildImages(content: MessageContent): string[] | undefined {
+    if (typeof content === "string") {
+      return undefined;
+    }
+
+    const images: string[] = [];
+    for (const part of content) {
+      if (part.type === "file") {
+        throw new AIClientError("File content is not supported by Ollama", this.name);
+      }
+      if (part.type === "image") {
+        const image = resolveImage(part);
+        if ("url" in image) {
+          throw new AIClientError("Ollama only accepts inline image data", this.name);
+        }
+        images.push(image.data);
+      }
+    }
+    return images.length ? images : undefined;
+  }
+
+  private buildRequest(input: ChatPromptInput, stream: boolean) {
+    const options: Record<string, number> = {};
+    if (input.temperature !== undefined) {
+      options.temperature = input.temperature;
+    }
+    if (input.maxTokens !== undefined) {
+      options.num_predict = input.maxTokens;
+    }
+
+    return {
+      model: this.model,
+      messages: input.messages.map((msg) => ({
+        role: msg.role,
+        content: getTextContent(msg.content),
+        images: this.buildImages(msg.content),
+        tool_calls: msg.toolCalls?.map((call) => ({
+          function: { name: call.name, arguments: call.arguments },
+        })),
+        tool_name: msg.role === "tool" ? msg.name : undefined,
+      })),
+      tools: input.tools?.map((tool) => ({
+        type: "function",
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      })),
+      format: input.responseFormat ? input.responseFormat.schema || "json" : undefined,
+      stream,
+      options,
+    };
+  }
+
+  async chat(input: ChatPromptInput): Promise<ChatResult> {
+    const response = await this.request("/api/chat", this.buildRequest(input, false), input.signal);
+    const data: any = await response.json();
+
+    // Older Ollama versions omit call IDs
+    const toolCalls: ToolCall[] = (data.message?.tool_calls || []).map(
+      (call: any, index: number) => ({
+        id: call.id || `call_${index}`,
+        name: call.function.name,
+        arguments: call.function.arguments || {},
+      })
+    );
+
+    const usage =
+      data.prompt_eval_count !== undefined || data.eval_count !== undefined
+        ? {
+            inputTokens: data.prompt_eval_count || 0,
+            outputTokens: data.eval_count || 0,
+            totalTokens: (data.prompt_eval_count || 0) + (data.eval_count || 0),
+          }
+        : undefined;
+
+    return {
+      content: data.message?.content || "",
+      tokensUsed: usage?.totalTokens,
+      usage,
+      model: data.model,
+      finishReason: data.done_reason || undefined,
+      toolCalls: toolCalls.length ? toolCalls : undefined,
+    };
+  }
+
+  async *chatStream(input: ChatPromptInput): AsyncIterable<ChatStreamChunk> {
+    const response = await this.request("/api/chat", this.buildRequest(input, true), input.signal);
+    if (!response.body) {
+      throw new AIClientError("No response body from Ollama", this.name);
+    }
+
+    // Ollama streams newline-delimited JSON objects
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let toolCallIndex = 0;
+    let final: any;
+
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = done ? "" : lines.pop() || "";
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const data = JSON.parse(line);
+          if (data.error) {
+            throw new AIClientError(`Ollama stream error: ${data.error}`, this.name);
+          }
+          if (data.message?.content) {
+            yield { type: "text", content: data.message.content, done: false };
+          }
+          for (const call of data.message?.tool_calls || []) {
+            const index = toolCallIndex++;
+            yield {
+              type: "tool_call",
+              content: "",
+              done: false,
+              toolCall: {
+                index,
+                id: call.id || `call_${index}`,
+                name: call.function.name,
+                arguments: JSON.stringify(call.function.arguments || {}),
+              },
+            };
+          }
+          // Token counts and the stop reason come on the closing object
+          if (data.done) {
+            final = data;
+          }
+        }
+
+        if (done) break;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    if (final?.prompt_eval_count !== undefined || final?.eval_count !== undefined) {
+      const inputTokens = final.prompt_eval_count || 0;
+      const outputTokens = final.eval_count || 0;
+      yield {
+        type: "usage",
+        content: "",
+        done: false,
+        usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      };
+    }
+    yield {
+      type: "finish",
+      content: "",
+      done: true,
+      finishReason: final?.done_reason || undefined,
+      model: final?.model,
+    };
+  }
+
+  async embed(input: EmbedInput): Promise<EmbedResult> {
+    const model = input.model || "nomic-embed-text";
+    const response = await this.request(
+      "/api/embed",
+      { model, input: input.texts, dimensions: input.dimensions },
+      input.signal
+    );
+    const data: any = await response.json();
+
+    return {
+      embeddings: data.embeddings,
+      tokensUsed: data.prompt_eval_count,
+      usage: data.prompt_eval_count !== undefined
+        ? { inputTokens: data.prompt_eval_count, outputTokens: 0, totalTokens: data.prompt_eval_count }
+        : undefined,
+      model: data.model || model,
+    };
+  }
+
+  async listModels(signal?: AbortSignal): Promise<LocalModelInfo[]> {
+    const response = await this.request("/api/tags", undefined, signal);
+    const data: any = await response.json();
+
+    return (data.models || []).map((model: any) => ({
+      name: model.name,
+      size: model.size,
+      modifiedAt: model.modified_at,
+      family: model.details?.family,
+      parameterSize: model.details?.parameter_size,
+    }));
+  }
+}
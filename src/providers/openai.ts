@@ -1,8 +1,31 @@
-import OpenAI from "openai";
+import OpenAI, { toFile } from "openai";
 import { BaseProvider } from "./base";
-import type { ChatPromptInput, ChatResult, ChatStreamChunk } from "../types";
+import { getTextContent, resolveImage, toBase64 } from "../content";
+import { parseRateLimitHeaders } from "../rate-limiter";
+import { ProviderUnavailableError } from "../errors";
+import { createProviderError } from "../provider-errors";
+import { parseToolArguments } from "../stream";
+import type {
+  BatchJob,
+  BatchJobOptions,
+  BatchJobOutput,
+  BatchJobRequest,
+  ChatPromptInput,
+  ChatResult,
+  ChatStreamChunk,
+  ContentPart,
+  EmbedInput,
+  EmbedResult,
+  Message,
+  TokenUsage,
+  ToolCall,
+} from "../types";
+
+const BATCH_ENDPOINT = "/v1/chat/completions";
 
 export class OpenAIProvider extends BaseProvider {
+  readonly name = "openai";
+  readonly embeddingBatchSize = 2048;
   private client: OpenAI;
 
   constructor(apiKey: string, model: string = "gpt-4o-mini", baseUrl?: string) {
@@ -13,49 +36,319 @@ export class OpenAIProvider extends BaseProvider {
     });
   }
 
-  async chat(input: ChatPromptInput): Promise<ChatResult> {
-    const response = await this.client.chat.completions.create({
-      model: this.model,
-      messages: input.messages.map((msg) => ({
+  private buildContentPart(part: ContentPart): OpenAI.Chat.ChatCompletionContentPart {
+    if (part.type === "text") {
+      return { type: "text", text: part.text };
+    }
+    if (part.type === "image") {
+      const image = resolveImage(part);
+      return {
+        type: "image_url",
+        image_url: {
+          url: "url" in image ? image.url : `data:${image.mimeType};base64,${image.data}`,
+          detail: part.detail,
+        },
+      };
+    }
+    return {
+      type: "file",
+      file: {
+        filename: part.filename,
+        file_data: `data:${part.mimeType};base64,${toBase64(part.data)}`,
+      },
+    };
+  }
+
+  private buildMessages(messages: Message[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return messages.map((msg): OpenAI.Chat.ChatCompletionMessageParam => {
+      if (msg.role === "tool") {
+        return {
+          role: "tool",
+          tool_call_id: msg.toolCallId || "",
+          content: getTextContent(msg.content),
+        };
+      }
+      if (msg.role === "user") {
+        return {
+          role: "user",
+          content:
+            typeof msg.content === "string"
+              ? msg.content
+              : msg.content.map((part) => this.buildContentPart(part)),
+        };
+      }
+      if (msg.role === "assistant" && msg.toolCalls?.length) {
+        return {
+          role: "assistant",
+          content: getTextContent(msg.content) || null,
+          tool_calls: msg.toolCalls.map((call) => ({
+            id: call.id,
+            type: "function" as const,
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        };
+      }
+      return {
         role: msg.role,
-        content: msg.content,
-      })),
+        content: getTextContent(msg.content),
+      };
+    });
+  }
+
+  private buildToolParams(input: ChatPromptInput) {
+    if (!input.tools?.length) {
+      return {};
+    }
+
+    const tools: OpenAI.Chat.ChatCompletionTool[] = input.tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters || { type: "object", properties: {} },
+      },
+    }));
+
+    let toolChoice: OpenAI.Chat.ChatCompletionToolChoiceOption | undefined;
+    if (typeof input.toolChoice === "object") {
+      toolChoice = { type: "function", function: { name: input.toolChoice.name } };
+    } else {
+      toolChoice = input.toolChoice;
+    }
+
+    return { tools, tool_choice: toolChoice };
+  }
+
+  private buildResponseFormat(input: ChatPromptInput) {
+    if (!input.responseFormat) {
+      return {};
+    }
+
+    const format: OpenAI.Chat.ChatCompletionCreateParams["response_format"] = input.responseFormat
+      .schema
+      ? {
+          type: "json_schema",
+          json_schema: {
+            name: input.responseFormat.name || "response",
+            schema: input.responseFormat.schema,
+            // Strict mode rejects schemas without additionalProperties: false everywhere
+            strict: false,
+          },
+        }
+      : { type: "json_object" };
+
+    return { response_format: format };
+  }
+
+  private buildChatBody(input: ChatPromptInput): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming {
+    return {
+      model: this.model,
+      messages: this.buildMessages(input.messages),
       temperature: input.temperature,
       max_tokens: input.maxTokens,
-    });
+      ...this.buildToolParams(input),
+      ...this.buildResponseFormat(input),
+    };
+  }
 
+  private toChatResult(response: OpenAI.Chat.ChatCompletion, requestId?: string): ChatResult {
     const choice = response.choices[0];
     if (!choice || !choice.message) {
-      throw new Error("No response from OpenAI");
+      throw new ProviderUnavailableError("No response from OpenAI", {
+        provider: this.name,
+        requestId,
+        body: response,
+      });
     }
 
+    const toolCalls: ToolCall[] | undefined = choice.message.tool_calls?.map((call) => ({
+      id: call.id,
+      name: call.function.name,
+      ...parseToolArguments(call.function.arguments),
+    }));
+
     return {
       content: choice.message.content || "",
       tokensUsed: response.usage?.total_tokens,
+      usage: response.usage && {
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens,
+      },
       model: response.model,
       finishReason: choice.finish_reason || undefined,
+      toolCalls: toolCalls?.length ? toolCalls : undefined,
+    };
+  }
+
+  async chat(input: ChatPromptInput): Promise<ChatResult> {
+    const { data: response, response: raw } = await this.client.chat.completions
+      .create(this.buildChatBody(input), { signal: input.signal })
+      .withResponse();
+
+    return {
+      ...this.toChatResult(response, raw.headers.get("x-request-id") ?? undefined),
+      rateLimit: parseRateLimitHeaders(raw.headers),
     };
   }
 
   async *chatStream(input: ChatPromptInput): AsyncIterable<ChatStreamChunk> {
-    const stream = await this.client.chat.completions.create({
-      model: this.model,
-      messages: input.messages.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      })),
-      temperature: input.temperature,
-      max_tokens: input.maxTokens,
-      stream: true,
-    });
+    const stream = await this.client.chat.completions.create(
+      { ...this.buildChatBody(input), stream: true, stream_options: { include_usage: true } },
+      { signal: input.signal }
+    );
+
+    let finishReason: string | undefined;
+    let model: string | undefined;
+    let usage: TokenUsage | undefined;
 
     for await (const chunk of stream) {
-      const delta = chunk.choices[0]?.delta?.content || "";
-      yield {
-        content: delta,
-        done: chunk.choices[0]?.finish_reason !== null,
+      model = chunk.model || model;
+      // The usage chunk arrives last, with no choices
+      if (chunk.usage) {
+        usage = {
+          inputTokens: chunk.usage.prompt_tokens,
+          outputTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        };
+      }
+
+      const choice = chunk.choices[0];
+      if (!choice) continue;
+      finishReason = choice.finish_reason || finishReason;
+
+      if (choice.delta?.content) {
+        yield { type: "text", content: choice.delta.content, done: false };
+      }
+      for (const call of choice.delta?.tool_calls || []) {
+        yield {
+          type: "tool_call",
+          content: "",
+          done: false,
+          toolCall: {
+            index: call.index,
+            id: call.id,
+            name: call.function?.name,
+            arguments: call.function?.arguments || "",
+          },
+        };
+      }
+    }
+
+    if (usage) {
+      yield { type: "usage", content: "", done: false, usage };
+    }
+    yield { type: "finish", content: "", done: true, finishReason, model };
+  }
+
+  async embed(input: EmbedInput): Promise<EmbedResult> {
+    const response = await this.client.embeddings.create(
+      {
+        model: input.model || "text-embedding-3-small",
+        input: input.texts,
+        dimensions: input.dimensions,
+      },
+      { signal: input.signal }
+    );
+
+    // Results are not guaranteed to come back in input order
+    const embeddings = [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+
+    return {
+      embeddings,
+      tokensUsed: response.usage?.total_tokens,
+      usage: response.usage && {
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: 0,
+        totalTokens: response.usage.total_tokens,
+      },
+      model: response.model,
+    };
+  }
+
+  async createBatchJob(requests: BatchJobRequest[], options?: BatchJobOptions): Promise<BatchJob> {
+    const lines = requests.map((request) =>
+      JSON.stringify({
+        custom_id: request.customId,
+        method: "POST",
+        url: BATCH_ENDPOINT,
+        body: this.buildChatBody(request.input),
+      })
+    );
+    const signal = options?.signal;
+    const file = await this.client.files.create(
+      {
+        file: await toFile(Buffer.from(lines.join("\n")), "batch.jsonl"),
+        purpose: "batch",
+      },
+      { signal }
+    );
+    const batch = await this.client.batches.create(
+      {
+        input_file_id: file.id,
+        endpoint: BATCH_ENDPOINT,
+        completion_window: "24h",
+        metadata: options?.metadata,
+      },
+      { signal }
+    );
+    return this.toBatchJob(batch);
+  }
+
+  async getBatchJob(id: string, signal?: AbortSignal): Promise<BatchJob> {
+    return this.toBatchJob(await this.client.batches.retrieve(id, { signal }));
+  }
+
+  async cancelBatchJob(id: string, signal?: AbortSignal): Promise<BatchJob> {
+    return this.toBatchJob(await this.client.batches.cancel(id, { signal }));
+  }
+
+  async getBatchJobOutput(job: BatchJob, signal?: AbortSignal): Promise<BatchJobOutput[]> {
+    const outputs: BatchJobOutput[] = [];
+    // Successful requests land in the output file, failed ones in the error file
+    for (const fileId of [job.outputFileId, job.errorFileId]) {
+      if (!fileId) continue;
+      const content = await (await this.client.files.content(fileId, { signal })).text();
+      for (const line of content.split("\n")) {
+        if (line.trim()) {
+          outputs.push(this.toBatchJobOutput(JSON.parse(line)));
+        }
+      }
+    }
+    return outputs;
+  }
+
+  private toBatchJobOutput(line: any): BatchJobOutput {
+    const customId: string = line.custom_id;
+    const statusCode: number | undefined = line.response?.status_code;
+    if (line.error || !statusCode || statusCode >= 400) {
+      const message =
+        line.error?.message || line.response?.body?.error?.message || "Batch request failed";
+      const details = {
+        provider: this.name,
+        statusCode,
+        requestId: line.response?.request_id,
+        body: line.response?.body ?? line.error,
       };
+      return { customId, error: createProviderError(message, details) };
     }
+    return { customId, result: this.toChatResult(line.response.body, line.response.request_id) };
   }
-}
 
+  private toBatchJob(batch: OpenAI.Batches.Batch): BatchJob {
+    return {
+      id: batch.id,
+      status: batch.status,
+      provider: this.name,
+      inputFileId: batch.input_file_id,
+      outputFileId: batch.output_file_id || undefined,
+      errorFileId: batch.error_file_id || undefined,
+      requestCounts: batch.request_counts || { total: 0, completed: 0, failed: 0 },
+      createdAt: new Date(batch.created_at * 1000),
+      completedAt: batch.completed_at ? new Date(batch.completed_at * 1000) : undefined,
+      errors: batch.errors?.data?.map((error) => error.message || error.code || "Unknown error"),
+    };
+  }
+}
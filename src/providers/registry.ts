@@ -0,0 +1,60 @@
+import { OpenAIProvider } from "./openai";
+import { GeminiProvider } from "./gemini";
+import { AnthropicProvider } from "./anthropic";
+import { OllamaProvider } from "./ollama";
+import type { ProviderFactory, ProviderRegistration, ProviderRegistrationOptions } from "../types";
+
+const registry = new Map<string, ProviderRegistration>();
+
+export function registerProvider(
+  name: string,
+  factory: ProviderFactory,
+  options?: ProviderRegistrationOptions
+): void {
+  registry.set(name, { ...options, factory });
+}
+
+export function unregisterProvider(name: string): boolean {
+  return registry.delete(name);
+}
+
+export function getProviderRegistration(name: string): ProviderRegistration | undefined {
+  return registry.get(name);
+}
+
+export function listProviders(): string[] {
+  return Array.from(registry.keys());
+}
+
+export function getApiKeyEnvNames(name: string): string[] {
+  const registration = registry.get(name);
+  if (registration?.apiKeyEnv && registration.apiKeyEnv.length > 0) {
+    return registration.apiKeyEnv;
+  }
+  return [`${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_API_KEY`];
+}
+
+// Built-in providers
+registerProvider(
+  "openai",
+  (config) => new OpenAIProvider(config.apiKey!, config.model, config.baseUrl),
+  { defaultModel: "gpt-4o-mini", apiKeyEnv: ["OPENAI_API_KEY"] }
+);
+
+registerProvider(
+  "gemini",
+  (config) => new GeminiProvider(config.apiKey!, config.model, config.baseUrl),
+  { defaultModel: "gemini-pro", apiKeyEnv: ["GEMINI_API_KEY", "GOOGLE_AI_API_KEY"] }
+);
+
+registerProvider(
+  "anthropic",
+  (config) => new AnthropicProvider(config.apiKey!, config.model, config.baseUrl),
+  { defaultModel: "claude-3-5-haiku-latest", apiKeyEnv: ["ANTHROPIC_API_KEY"] }
+);
+
+registerProvider(
+  "ollama",
+  (config) => new OllamaProvider(config.apiKey, config.model, config.baseUrl),
+  { defaultModel: "llama3.1", apiKeyEnv: ["OLLAMA_API_KEY"], requiresApiKey: false }
+);
@@ -0,0 +1,193 @@
+import { createHash } from "crypto";
+import { AbortError } from "./errors";
+import { sleep } from "./utils";
+import type { RateLimitInfo, RateLimitOptions } from "./types";
+
+const MINUTE_MS = 60_000;
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: MINUTE_MS, h: 3_600_000 };
+
+export type HeaderSource =
+  | { get(name: string): string | null }
+  | Record<string, string | string[] | null | undefined>
+  | undefined;
+
+export function readHeader(headers: HeaderSource, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof (headers as any).get === "function") {
+    return (headers as { get(name: string): string | null }).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, any>)[name];
+  return Array.isArray(value) ? value[0] : value ?? undefined;
+}
+
+// Parses OpenAI-style durations such as "20ms", "1s" or "6m0s"
+export function parseDuration(value: string): number | undefined {
+  const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let total = 0;
+  let matched = false;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value))) {
+    matched = true;
+    total += parseFloat(match[1]) * DURATION_UNITS[match[2]];
+  }
+  return matched ? total : undefined;
+}
+
+export function parseRateLimitHeaders(headers: HeaderSource): RateLimitInfo | undefined {
+  const info: RateLimitInfo = {};
+
+  const retryAfterMs = readHeader(headers, "retry-after-ms");
+  const retryAfter = readHeader(headers, "retry-after");
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    info.retryAfterMs = Number(retryAfterMs);
+  } else if (retryAfter) {
+    // Either delay-seconds or an HTTP date
+    info.retryAfterMs = !isNaN(Number(retryAfter))
+      ? Number(retryAfter) * 1000
+      : Math.max(0, Date.parse(retryAfter) - Date.now()) || undefined;
+  }
+
+  const remainingRequests = readHeader(headers, "x-ratelimit-remaining-requests");
+  const remainingTokens = readHeader(headers, "x-ratelimit-remaining-tokens");
+  const resetRequests = readHeader(headers, "x-ratelimit-reset-requests");
+  const resetTokens = readHeader(headers, "x-ratelimit-reset-tokens");
+  if (remainingRequests !== undefined) info.remainingRequests = Number(remainingRequests);
+  if (remainingTokens !== undefined) info.remainingTokens = Number(remainingTokens);
+  if (resetRequests) info.resetRequestsMs = parseDuration(resetRequests);
+  if (resetTokens) info.resetTokensMs = parseDuration(resetTokens);
+
+  return Object.keys(info).length > 0 ? info : undefined;
+}
+
+class TokenBucket {
+  private available: number;
+  private updatedAt = Date.now();
+
+  constructor(readonly capacity: number) {
+    this.available = capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(
+      this.capacity,
+      this.available + ((now - this.updatedAt) * this.capacity) / MINUTE_MS
+    );
+    this.updatedAt = now;
+  }
+
+  // Milliseconds until `amount` is available
+  waitTime(amount: number): number {
+    this.refill();
+    const needed = Math.min(amount, this.capacity) - this.available;
+    return needed <= 0 ? 0 : Math.ceil((needed * MINUTE_MS) / this.capacity);
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.available -= amount;
+  }
+
+  refund(amount: number): void {
+    this.refill();
+    this.available = Math.min(this.capacity, this.available + amount);
+  }
+
+  limitTo(remaining: number): void {
+    this.refill();
+    this.available = Math.min(this.available, remaining);
+  }
+}
+
+export class RateLimiter {
+  private requests?: TokenBucket;
+  private tokens?: TokenBucket;
+  private queue: Promise<void> = Promise.resolve();
+  private blockedUntil = 0;
+
+  constructor(options: RateLimitOptions) {
+    if (options.requestsPerMinute) {
+      this.requests = new TokenBucket(options.requestsPerMinute);
+    }
+    if (options.tokensPerMinute) {
+      this.tokens = new TokenBucket(options.tokensPerMinute);
+    }
+  }
+
+  // Waits for capacity; callers are served in FIFO order
+  acquire(tokens: number = 0, signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.waitForCapacity(tokens, signal));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForCapacity(tokens: number, signal?: AbortSignal): Promise<void> {
+    while (true) {
+      if (signal?.aborted) {
+        throw new AbortError();
+      }
+      const wait = Math.max(
+        this.blockedUntil - Date.now(),
+        this.requests?.waitTime(1) ?? 0,
+        this.tokens?.waitTime(tokens) ?? 0
+      );
+      if (wait <= 0) {
+        this.requests?.take(1);
+        this.tokens?.take(tokens);
+        return;
+      }
+      await sleep(wait, signal);
+    }
+  }
+
+  // Corrects the token estimate once the actual usage is known
+  reconcile(estimatedTokens: number, actualTokens: number): void {
+    if (!this.tokens) return;
+    if (actualTokens < estimatedTokens) {
+      this.tokens.refund(estimatedTokens - actualTokens);
+    } else if (actualTokens > estimatedTokens) {
+      this.tokens.take(actualTokens - estimatedTokens);
+    }
+  }
+
+  update(info: RateLimitInfo): void {
+    if (info.remainingRequests !== undefined) {
+      this.requests?.limitTo(info.remainingRequests);
+    }
+    if (info.remainingTokens !== undefined) {
+      this.tokens?.limitTo(info.remainingTokens);
+    }
+
+    let blockFor = info.retryAfterMs ?? 0;
+    if (info.remainingRequests === 0 && info.resetRequestsMs !== undefined) {
+      blockFor = Math.max(blockFor, info.resetRequestsMs);
+    }
+    if (info.remainingTokens === 0 && info.resetTokensMs !== undefined) {
+      blockFor = Math.max(blockFor, info.resetTokensMs);
+    }
+    if (blockFor > 0) {
+      this.blockedUntil = Math.max(this.blockedUntil, Date.now() + blockFor);
+    }
+  }
+}
+
+const sharedLimiters = new Map<string, RateLimiter>();
+
+// Clients using the same API key, provider, model and limits share one limiter
+export function getSharedRateLimiter(
+  provider: string,
+  model: string | undefined,
+  apiKey: string | undefined,
+  options: RateLimitOptions
+): RateLimiter {
+  const keyHash = createHash("sha256").update(apiKey || "").digest("hex").slice(0, 16);
+  const limits = `${options.requestsPerMinute ?? ""}:${options.tokensPerMinute ?? ""}`;
+  const key = `${provider}:${model || ""}:${keyHash}:${limits}`;
+
+  let limiter = sharedLimiters.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter(options);
+    sharedLimiters.set(key, limiter);
+  }
+  return limiter;
+}
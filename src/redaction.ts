@@ -0,0 +1,226 @@
+import type {
+  ChatResult,
+  Message,
+  Middleware,
+  PIIType,
+  RedactedItem,
+  RedactionOptions,
+  RedactionPattern,
+  RedactionReport,
+} from "./types";
+
+const PLACEHOLDER_PATTERN = /\[[A-Z][A-Z0-9_]*_\d+\]/g;
+// What the tail of a stream event looks like when a placeholder is split across events
+const PARTIAL_PLACEHOLDER_PATTERN = /^\[[A-Z0-9_]*$/;
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, "");
+}
+
+// The Luhn checksum keeps order numbers and timestamps from being taken for cards
+function passesLuhn(value: string): boolean {
+  const digits = digitsOf(value);
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616 mod-97 check
+function isValidIban(value: string): boolean {
+  const compact = value.replace(/\s/g, "");
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// Built-in detectors, in the order they run
+export const PII_PATTERNS: Record<PIIType, RedactionPattern> = {
+  email: {
+    type: "email",
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  },
+  iban: {
+    type: "iban",
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    validate: isValidIban,
+  },
+  creditCard: {
+    type: "creditCard",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: passesLuhn,
+  },
+  phone: {
+    type: "phone",
+    pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}(?!\w)/g,
+    // Shorter numbers are more often dates, amounts or IDs
+    validate: (match) => {
+      const length = digitsOf(match).length;
+      return length <= 15 && (length >= 9 || (match.startsWith("+") && length >= 7));
+    },
+  },
+};
+
+function placeholderLabel(type: string): string {
+  return type
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .toUpperCase();
+}
+
+function mapStrings(value: any, fn: (text: string) => string): any {
+  if (typeof value === "string") return fn(value);
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, fn));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)])
+    );
+  }
+  return value;
+}
+
+// Swaps PII for placeholders and back; the same value always gets the same placeholder
+export class Redactor {
+  private readonly patterns: RedactionPattern[];
+  private placeholders = new Map<string, string>();
+  private originals = new Map<string, string>();
+  private items = new Map<string, RedactedItem>();
+  private counters = new Map<string, number>();
+  private pending = "";
+
+  constructor(options: RedactionOptions = {}) {
+    const builtIn = (Object.keys(PII_PATTERNS) as PIIType[])
+      .filter((type) => !options.types || options.types.includes(type))
+      .map((type) => PII_PATTERNS[type]);
+    this.patterns = [...builtIn, ...(options.patterns || [])].map((entry) => ({
+      ...entry,
+      pattern: entry.pattern.global
+        ? entry.pattern
+        : new RegExp(entry.pattern.source, `${entry.pattern.flags}g`),
+    }));
+  }
+
+  redact(text: string): string {
+    let redacted = text;
+    for (const { type, pattern, validate } of this.patterns) {
+      redacted = redacted.replace(pattern, (match) =>
+        validate && !validate(match) ? match : this.placeholderFor(type, match)
+      );
+    }
+    return redacted;
+  }
+
+  redactMessage(message: Message): Message {
+    const content =
+      typeof message.content === "string"
+        ? this.redact(message.content)
+        : message.content.map((part) =>
+            part.type === "text" ? { ...part, text: this.redact(part.text) } : part
+          );
+    return {
+      ...message,
+      content,
+      ...(message.toolCalls && {
+        toolCalls: message.toolCalls.map((call) => ({
+          ...call,
+          arguments: mapStrings(call.arguments, (text) => this.redact(text)),
+          ...(call.rawArguments !== undefined && { rawArguments: this.redact(call.rawArguments) }),
+        })),
+      }),
+    };
+  }
+
+  restore(text: string): string {
+    if (this.originals.size === 0) return text;
+    return text.replace(PLACEHOLDER_PATTERN, (match) => this.originals.get(match) ?? match);
+  }
+
+  restoreValue<T>(value: T): T {
+    return mapStrings(value, (text) => this.restore(text));
+  }
+
+  // Puts the originals back in content and tool call arguments and attaches the report
+  restoreResult(result: ChatResult): ChatResult {
+    return {
+      ...result,
+      content: this.restore(result.content),
+      ...(result.toolCalls && { toolCalls: this.restoreValue(result.toolCalls) }),
+      redaction: this.report(),
+    };
+  }
+
+  // Restores a stream delta, holding back a trailing placeholder fragment until it completes
+  restoreDelta(delta: string): string {
+    if (this.originals.size === 0) return delta;
+    const buffered = this.pending + delta;
+    const start = buffered.lastIndexOf("[");
+    if (start >= 0 && PARTIAL_PLACEHOLDER_PATTERN.test(buffered.slice(start))) {
+      this.pending = buffered.slice(start);
+      return this.restore(buffered.slice(0, start));
+    }
+    this.pending = "";
+    return this.restore(buffered);
+  }
+
+  // Returns whatever restoreDelta() was still holding back
+  flush(): string {
+    const rest = this.pending;
+    this.pending = "";
+    return this.restore(rest);
+  }
+
+  report(): RedactionReport {
+    const items = [...this.items.values()].map((item) => ({ ...item }));
+    return { count: items.length, items };
+  }
+
+  private placeholderFor(type: string, value: string): string {
+    const existing = this.placeholders.get(value);
+    if (existing) {
+      this.items.get(existing)!.occurrences++;
+      return existing;
+    }
+
+    const label = placeholderLabel(type);
+    const index = (this.counters.get(label) || 0) + 1;
+    this.counters.set(label, index);
+    const placeholder = `[${label}_${index}]`;
+    this.placeholders.set(value, placeholder);
+    this.originals.set(placeholder, value);
+    this.items.set(placeholder, { type, placeholder, occurrences: 1 });
+    return placeholder;
+  }
+}
+
+// Redacts outgoing messages and restores the originals in results and stream text
+export function createRedactionMiddleware(options: RedactionOptions = {}): Middleware {
+  return async (input, next, context) => {
+    // One redactor per request, so placeholders are only meaningful within it
+    const redactor = new Redactor(options);
+    const messages = input.messages.map((message) => redactor.redactMessage(message));
+
+    context.transformChunk((chunk) => {
+      if (chunk.type === "finish") {
+        return { ...chunk, content: redactor.flush() + chunk.content };
+      }
+      if (chunk.type === undefined || chunk.type === "text") {
+        return { ...chunk, content: redactor.restoreDelta(chunk.content) };
+      }
+      return chunk;
+    });
+
+    return redactor.restoreResult(await next({ ...input, messages }));
+  };
+}
@@ -0,0 +1,92 @@
+import { CircuitOpenError, TimeoutError } from "./errors";
+import { isRetryableError } from "./utils";
+import type { CircuitBreakerOptions, CircuitState, RetryBudgetOptions, RetryJitter } from "./types";
+
+// Exponential backoff capped at maxDelay, optionally randomised so clients don't retry in lockstep
+export function computeRetryDelay(
+  attempt: number,
+  previousDelay: number | undefined,
+  options: { baseDelay: number; maxDelay: number; jitter: RetryJitter }
+): number {
+  const { baseDelay, maxDelay, jitter } = options;
+  const exponential = Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+
+  switch (jitter) {
+    case "full":
+      return Math.random() * exponential;
+    case "decorrelated": {
+      const previous = previousDelay ?? baseDelay;
+      return Math.min(maxDelay, baseDelay + Math.random() * Math.max(0, previous * 3 - baseDelay));
+    }
+    default:
+      return exponential;
+  }
+}
+
+// Caps the number of retries across all calls within a sliding window
+export class RetryBudget {
+  private retries: number[] = [];
+
+  constructor(private readonly options: RetryBudgetOptions) {}
+
+  tryAcquire(): boolean {
+    const now = Date.now();
+    const window = this.options.window ?? 60_000;
+    this.retries = this.retries.filter((time) => time > now - window);
+    if (this.retries.length >= this.options.maxRetries) {
+      return false;
+    }
+    this.retries.push(now);
+    return true;
+  }
+}
+
+// Opens after consecutive provider failures, then lets a single probe through once resetTimeout has passed
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private probing = false;
+
+  constructor(private readonly options: CircuitBreakerOptions = {}) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) return "closed";
+    return Date.now() < this.retryAt ? "open" : "half-open";
+  }
+
+  private get retryAt(): number {
+    return (this.openedAt ?? 0) + (this.options.resetTimeout ?? 30_000);
+  }
+
+  // Throws while open; a probe holds the half-open state until its result is recorded
+  acquire(provider?: string): void {
+    if (this.openedAt === undefined) return;
+    if (this.state === "open" || this.probing) {
+      throw new CircuitOpenError(
+        `Circuit breaker is open for ${provider || "provider"} after ${this.failures} consecutive failures`,
+        new Date(this.retryAt),
+        provider
+      );
+    }
+    this.probing = true;
+  }
+
+  // Only outages count as failures; any other answer shows the provider is up
+  record(error?: Error): void {
+    this.probing = false;
+    if (error && (isRetryableError(error) || error instanceof TimeoutError)) {
+      this.failures++;
+      if (this.openedAt !== undefined || this.failures >= (this.options.failureThreshold ?? 5)) {
+        this.openedAt = Date.now();
+      }
+      return;
+    }
+    this.failures = 0;
+    this.openedAt = undefined;
+  }
+
+  // Frees the probe slot without a verdict, e.g. when the caller aborted
+  release(): void {
+    this.probing = false;
+  }
+}
@@ -0,0 +1,37 @@
+import type { SimilarityMatch } from "./types";
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimensions differ: ${a.length} vs ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export function topK<T = number[]>(
+  query: number[],
+  items: T[],
+  k: number = 5,
+  getEmbedding: (item: T) => number[] = (item) => item as unknown as number[]
+): SimilarityMatch<T>[] {
+  return items
+    .map((item, index) => ({
+      item,
+      index,
+      score: cosineSimilarity(query, getEmbedding(item)),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
@@ -0,0 +1,169 @@
+import type { ChatResult, ChatStreamChunk, TokenUsage, ToolCall } from "./types";
+
+interface PendingToolCall {
+  id?: string;
+  name?: string;
+  arguments: string;
+}
+
+// Tool call arguments arrive as JSON text that a length cutoff can leave incomplete
+export function parseToolArguments(
+  json: string | undefined
+): Pick<ToolCall, "arguments" | "rawArguments"> {
+  if (!json) return { arguments: {} };
+  try {
+    return { arguments: JSON.parse(json) };
+  } catch (error) {
+    // Kept so runTools can refuse the call instead of running it without its arguments
+    return { arguments: {}, rawArguments: json };
+  }
+}
+
+// Folds stream events back into the shape chat() returns
+export class StreamAggregator {
+  private content = "";
+  private toolCalls = new Map<number, PendingToolCall>();
+  private usage?: TokenUsage;
+  private finishReason?: string;
+  private model?: string;
+
+  add(chunk: ChatStreamChunk): void {
+    switch (chunk.type) {
+      case "tool_call": {
+        const { index, id, name, arguments: delta } = chunk.toolCall;
+        const call = this.toolCalls.get(index) || { arguments: "" };
+        call.id = id ?? call.id;
+        call.name = name ?? call.name;
+        call.arguments += delta;
+        this.toolCalls.set(index, call);
+        break;
+      }
+      case "usage":
+        this.usage = chunk.usage;
+        break;
+      case "finish":
+        this.finishReason = chunk.finishReason ?? this.finishReason;
+        this.model = chunk.model ?? this.model;
+        break;
+      case "error":
+        break;
+      default:
+        this.content += chunk.content;
+    }
+  }
+
+  toResult(): ChatResult {
+    const toolCalls: ToolCall[] = [...this.toolCalls.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, call]) => ({
+        id: call.id || `call_${index}`,
+        name: call.name || "",
+        ...parseToolArguments(call.arguments),
+      }));
+
+    return {
+      content: this.content,
+      tokensUsed: this.usage?.totalTokens,
+      usage: this.usage,
+      model: this.model,
+      finishReason: this.finishReason,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+  }
+}
+
+// Hands events from a producer to a single consumer one at a time, so the producer
+// reads from the provider no faster than the caller iterates
+export class StreamChannel<T> {
+  private pending: Array<{ value: T; deliver: (delivered: boolean) => void }> = [];
+  private waiting?: () => void;
+  private closed = false;
+  private cancelled = false;
+  private error?: Error;
+
+  // Resolves false once the consumer has stopped listening
+  push(value: T): Promise<boolean> {
+    if (this.cancelled || this.closed) return Promise.resolve(false);
+    return new Promise((deliver) => {
+      this.pending.push({ value, deliver });
+      this.wake();
+    });
+  }
+
+  close(error?: Error): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.error = error;
+    this.wake();
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+    for (const item of this.pending.splice(0)) {
+      item.deliver(false);
+    }
+  }
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    while (true) {
+      const item = this.pending.shift();
+      if (item) {
+        item.deliver(true);
+        yield item.value;
+        continue;
+      }
+      if (this.closed) {
+        if (this.error) throw this.error;
+        return;
+      }
+      await new Promise<void>((resolve) => (this.waiting = resolve));
+    }
+  }
+}
+
+type StreamSource = (
+  complete: (result: ChatResult) => void,
+  fail: (error: Error) => void
+) => AsyncIterable<ChatStreamChunk>;
+
+// A chat stream that can be iterated once and also resolves to the final result
+export class ChatStream implements AsyncIterable<ChatStreamChunk> {
+  private readonly result: Promise<ChatResult>;
+  private complete!: (result: ChatResult) => void;
+  private fail!: (error: Error) => void;
+  private started = false;
+
+  constructor(private readonly source: StreamSource) {
+    this.result = new Promise<ChatResult>((resolve, reject) => {
+      this.complete = resolve;
+      this.fail = reject;
+    });
+    // Errors surface through iteration; only finalResult() callers should see a rejection
+    this.result.catch(() => {});
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<ChatStreamChunk> {
+    if (this.started) {
+      throw new Error("A chat stream can only be iterated once");
+    }
+    this.started = true;
+    return this.source(this.complete, this.fail)[Symbol.asyncIterator]();
+  }
+
+  // Resolves once the stream ends, draining it first if nobody is iterating
+  async finalResult(): Promise<ChatResult> {
+    if (!this.started) {
+      const iterator = this[Symbol.asyncIterator]();
+      while (!(await iterator.next()).done) {
+        // Events are folded into the result as they pass
+      }
+    }
+    return this.result;
+  }
+}
@@ -1,15 +1,61 @@
-export type ProviderName = "openai" | "gemini";
+import type { RateLimiter } from "./rate-limiter";
 
-export type MessageRole = "user" | "assistant" | "system";
+export type ProviderName = "openai" | "gemini" | "anthropic" | "ollama" | (string & {});
+
+export type MessageRole = "user" | "assistant" | "system" | "tool";
+
+export interface TextContentPart {
+  type: "text";
+  text: string;
+}
+
+export interface ImageContentPart {
+  type: "image";
+  url?: string; // Remote or data: URL
+  data?: string | Buffer; // Base64 string or raw bytes
+  mimeType?: string;
+  detail?: "auto" | "low" | "high";
+}
+
+export interface FileContentPart {
+  type: "file";
+  data: string | Buffer; // Base64 string or raw bytes
+  mimeType: string;
+  filename?: string;
+}
+
+export type ContentPart = TextContentPart | ImageContentPart | FileContentPart;
+
+export type MessageContent = string | ContentPart[];
 
 export interface Message {
   role: MessageRole;
-  content: string;
+  content: MessageContent;
+  toolCalls?: ToolCall[]; // Tool calls requested by an assistant message
+  toolCallId?: string; // Call answered by a tool message
+  name?: string; // Tool name for tool messages
+}
+
+export type JSONSchema = Record<string, any>;
+
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  parameters?: JSONSchema; // Schema of the arguments object
+}
+
+export type ToolChoice = "auto" | "none" | "required" | { name: string };
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+  rawArguments?: string; // Set when the arguments were not valid JSON; arguments is then {}
 }
 
 export interface AIClientConfig {
-  provider: ProviderName;
-  apiKey: string;
+  provider: ProviderName | LLMProvider;
+  apiKey?: string;
   model?: string;
   temperature?: number;
   maxTokens?: number;
@@ -17,6 +63,220 @@ export interface AIClientConfig {
   timeout?: number;
   maxRetries?: number;
   retryDelay?: number;
+  embeddingModel?: string;
+  contextWindow?: ContextWindowOptions;
+  pricing?: Record<string, ModelPricing>; // USD per million tokens, by model-name prefix
+  budget?: BudgetConfig;
+  rateLimit?: RateLimitOptions | RateLimiter;
+  fallbacks?: FallbackTarget[]; // Tried in order when the provider is unavailable
+  cache?: boolean | CacheConfig; // Opt-in response cache; true uses an in-memory store
+  streamTimeouts?: StreamTimeoutOptions;
+  retryPolicy?: RetryPolicy; // Takes precedence over maxRetries and retryDelay
+  redaction?: boolean | RedactionOptions; // Opt-in PII redaction; true enables every built-in type
+  injectionGuard?: boolean | InjectionGuardOptions; // Scans documents given to summarize and answerQuestion
+}
+
+export type RetryJitter = "none" | "full" | "decorrelated";
+
+export interface RetryDelayOptions {
+  baseDelay?: number; // Milliseconds; default: retryDelay
+  maxDelay?: number; // Milliseconds; default: 30000
+  jitter?: RetryJitter; // Default: "none"
+}
+
+export type RetryErrorName =
+  | "AuthenticationError"
+  | "RateLimitError"
+  | "ContextLengthExceededError"
+  | "ContentFilteredError"
+  | "InvalidRequestError"
+  | "ProviderUnavailableError"
+  | "TimeoutError";
+
+export interface RetryRule extends RetryDelayOptions {
+  retry?: boolean; // Default: true for RateLimitError and ProviderUnavailableError
+  maxRetries?: number;
+}
+
+export interface RetryBudgetOptions {
+  maxRetries: number; // Retries allowed across all calls within the window
+  window?: number; // Milliseconds; default: 60000
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Consecutive failures before opening; default: 5
+  resetTimeout?: number; // Milliseconds before a probe is let through; default: 30000
+}
+
+export interface RetryPolicy extends RetryDelayOptions {
+  maxRetries?: number; // Default: maxRetries
+  overrides?: Partial<Record<RetryErrorName, RetryRule>>; // Keyed by error class name
+  budget?: RetryBudgetOptions;
+  circuitBreaker?: boolean | CircuitBreakerOptions; // One breaker per provider target
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface StreamTimeoutOptions {
+  firstToken?: number; // Milliseconds until the first event; default: timeout
+  idle?: number; // Milliseconds allowed between events; default: timeout
+}
+
+export type PIIType = "email" | "phone" | "creditCard" | "iban";
+
+export interface RedactionPattern {
+  type: string; // Named in the placeholder: "employeeId" becomes [EMPLOYEE_ID_1]
+  pattern: RegExp; // Must use the g flag
+  validate?: (match: string) => boolean; // Rejects false positives
+}
+
+export interface RedactionOptions {
+  types?: PIIType[]; // Built-in detectors to run; default: all
+  patterns?: RedactionPattern[]; // Run after the built-in detectors
+}
+
+export interface RedactedItem {
+  type: string;
+  placeholder: string;
+  occurrences: number;
+}
+
+// Never includes the original values
+export interface RedactionReport {
+  count: number; // Distinct values redacted
+  items: RedactedItem[];
+}
+
+export interface InjectionPattern {
+  name: string; // Reported in InjectionReport.matches
+  pattern: RegExp;
+  weight: number; // 0-1; how strongly a match alone suggests an injection
+}
+
+export interface InjectionGuardOptions {
+  mode?: "flag" | "block"; // "block" throws PromptInjectionError; default: "flag"
+  threshold?: number; // Risk score at which input is flagged; default: 0.5
+  patterns?: InjectionPattern[]; // Checked alongside the built-in heuristics
+}
+
+export interface InjectionReport {
+  score: number; // 0-1
+  flagged: boolean;
+  matches: string[]; // Names of the heuristics that matched
+}
+
+export interface CacheConfig {
+  store?: CacheStore; // Default: in-memory LRU store
+  ttl?: number; // Milliseconds; default: no expiry
+}
+
+export interface CacheControl {
+  ttl?: number;
+  refresh?: boolean; // Skip the lookup but store the fresh result
+}
+
+// Backends such as Redis implement this to share cached responses
+export interface CacheStore {
+  get(key: string): Promise<ChatResult | undefined> | ChatResult | undefined;
+  set(key: string, value: ChatResult, ttl?: number): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+  clear?(): Promise<void> | void;
+}
+
+export interface FallbackTarget {
+  provider: ProviderName | LLMProvider;
+  model?: string; // Defaults to the provider's default model
+  apiKey?: string; // Defaults to the client's key for the same provider, else the environment
+  baseUrl?: string;
+}
+
+export interface ProviderErrorDetails {
+  provider?: string;
+  statusCode?: number;
+  requestId?: string;
+  body?: unknown; // Raw error body from the provider
+  originalError?: Error;
+}
+
+export interface RetryAttempt {
+  provider: string;
+  model?: string;
+  error: Error;
+}
+
+export interface RateLimitOptions {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  shared?: boolean; // Share with clients with the same provider, model, key and limits; default true
+}
+
+export interface RateLimitInfo {
+  remainingRequests?: number;
+  remainingTokens?: number;
+  resetRequestsMs?: number;
+  resetTokensMs?: number;
+  retryAfterMs?: number;
+}
+
+export interface BudgetLimit {
+  maxTokens?: number;
+  maxCost?: number; // USD
+}
+
+export interface BudgetConfig {
+  perRequest?: BudgetLimit;
+  perMinute?: BudgetLimit;
+  lifetime?: BudgetLimit;
+  softThreshold?: number; // Fraction of a limit that fires budget hooks; default 0.8
+}
+
+export type BudgetWindow = "perRequest" | "perMinute" | "lifetime";
+
+export interface BudgetThresholdEvent {
+  window: Exclude<BudgetWindow, "perRequest">;
+  metric: "tokens" | "cost";
+  used: number;
+  limit: number;
+  ratio: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost?: number; // USD, when the model has a known price
+}
+
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface UsageSummary {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+  byModel: Record<string, Omit<UsageSummary, "byModel">>;
+}
+
+export type ContextStrategy = "truncate" | "summarize";
+
+export interface ContextWindowOptions {
+  strategy?: ContextStrategy; // Default: "truncate"
+  maxContextTokens?: number; // Overrides the per-model limit
+  reserveTokens?: number; // Room left for the response; defaults to maxTokens or 1024
+  preserveRecent?: number; // Messages kept verbatim by "summarize"; default 4
+  limits?: Record<string, number>; // Extra per-model limits, by model-name prefix
+}
+
+export interface ContextManagementReport {
+  strategy: ContextStrategy;
+  originalTokens: number;
+  finalTokens: number;
+  removedMessages: number;
+  summary?: string;
 }
 
 export interface ChatPromptInput {
@@ -24,30 +284,61 @@ export interface ChatPromptInput {
   temperature?: number;
   maxTokens?: number;
   stream?: boolean;
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  responseFormat?: ResponseFormat;
+  signal?: AbortSignal;
+}
+
+export interface ResponseFormat {
+  type: "json";
+  schema?: JSONSchema;
+  name?: string;
 }
 
 export interface ChatResult {
   content: string;
   tokensUsed?: number;
+  usage?: TokenUsage;
   model?: string;
   finishReason?: string;
   provider?: string;
+  toolCalls?: ToolCall[];
+  contextManagement?: ContextManagementReport;
+  rateLimit?: RateLimitInfo; // From provider response headers, when available
+  cached?: boolean; // Served from the response cache
+  redaction?: RedactionReport; // Set when redaction is enabled
+  injection?: InjectionReport; // Set on helper streams when the injection guard is enabled
+}
+
+export interface AbortOptions {
+  signal?: AbortSignal; // Cancels the request, including pending retries
 }
 
-export interface SummarizeOptions {
+// Options accepted by every request method
+export interface RequestOptions extends AbortOptions {
+  cache?: boolean | CacheControl; // false bypasses the response cache for this call
+}
+
+export interface SummarizeOptions extends RequestOptions {
   length?: "short" | "medium" | "long";
   language?: string;
   tone?: "neutral" | "formal" | "casual";
+  injectionGuard?: boolean | InjectionGuardOptions; // Overrides the client setting
 }
 
 export interface SummarizeResult {
   summary: string;
   tokensUsed?: number;
+  usage?: TokenUsage;
   provider?: string;
   model?: string;
+  cached?: boolean;
+  redaction?: RedactionReport;
+  injection?: InjectionReport; // Set when the injection guard is enabled
 }
 
-export interface FixGrammarOptions {
+export interface FixGrammarOptions extends RequestOptions {
   keepTone?: boolean;
   language?: string;
 }
@@ -55,11 +346,14 @@ export interface FixGrammarOptions {
 export interface FixGrammarResult {
   corrected: string;
   tokensUsed?: number;
+  usage?: TokenUsage;
   provider?: string;
   model?: string;
+  cached?: boolean;
+  redaction?: RedactionReport;
 }
 
-export interface TranslateOptions {
+export interface TranslateOptions extends RequestOptions {
   sourceLanguage?: string;
   preserveFormatting?: boolean;
 }
@@ -68,23 +362,31 @@ export interface TranslateResult {
   translated: string;
   detectedSourceLanguage?: string;
   tokensUsed?: number;
+  usage?: TokenUsage;
   provider?: string;
   model?: string;
+  cached?: boolean;
+  redaction?: RedactionReport;
 }
 
-export interface AnswerQuestionOptions {
+export interface AnswerQuestionOptions extends RequestOptions {
   maxLength?: number;
   temperature?: number;
+  injectionGuard?: boolean | InjectionGuardOptions; // Overrides the client setting
 }
 
 export interface AnswerQuestionResult {
   answer: string;
   tokensUsed?: number;
+  usage?: TokenUsage;
   provider?: string;
   model?: string;
+  cached?: boolean;
+  redaction?: RedactionReport;
+  injection?: InjectionReport; // Set when the injection guard is enabled
 }
 
-export interface RewriteOptions {
+export interface RewriteOptions extends RequestOptions {
   tone?: "formal" | "casual" | "professional" | "friendly";
   preserveLength?: boolean;
 }
@@ -92,11 +394,14 @@ export interface RewriteOptions {
 export interface RewriteResult {
   rewritten: string;
   tokensUsed?: number;
+  usage?: TokenUsage;
   provider?: string;
   model?: string;
+  cached?: boolean;
+  redaction?: RedactionReport;
 }
 
-export interface SummarizeToBulletsOptions {
+export interface SummarizeToBulletsOptions extends RequestOptions {
   maxBullets?: number;
   language?: string;
 }
@@ -104,11 +409,14 @@ export interface SummarizeToBulletsOptions {
 export interface SummarizeToBulletsResult {
   bullets: string[];
   tokensUsed?: number;
+  usage?: TokenUsage;
   provider?: string;
   model?: string;
+  cached?: boolean;
+  redaction?: RedactionReport;
 }
 
-export interface ExtractKeywordsOptions {
+export interface ExtractKeywordsOptions extends RequestOptions {
   maxKeywords?: number;
   minLength?: number;
 }
@@ -116,27 +424,36 @@ export interface ExtractKeywordsOptions {
 export interface ExtractKeywordsResult {
   keywords: string[];
   tokensUsed?: number;
+  usage?: TokenUsage;
   provider?: string;
   model?: string;
+  cached?: boolean;
+  redaction?: RedactionReport;
 }
 
 export interface DetectLanguageResult {
   language: string;
   confidence: number;
   tokensUsed?: number;
+  usage?: TokenUsage;
   provider?: string;
   model?: string;
+  cached?: boolean;
+  redaction?: RedactionReport;
 }
 
 export interface ClassifySentimentResult {
   sentiment: "positive" | "neutral" | "negative";
   score: number;
   tokensUsed?: number;
+  usage?: TokenUsage;
   provider?: string;
   model?: string;
+  cached?: boolean;
+  redaction?: RedactionReport;
 }
 
-export interface CustomPromptOptions {
+export interface CustomPromptOptions extends RequestOptions {
   temperature?: number;
   maxTokens?: number;
   variables?: Record<string, string>;
@@ -145,27 +462,306 @@ export interface CustomPromptOptions {
 export interface CustomPromptResult {
   result: string;
   tokensUsed?: number;
+  usage?: TokenUsage;
+  provider?: string;
+  model?: string;
+  cached?: boolean;
+  redaction?: RedactionReport;
+}
+
+export interface DescribeImageOptions extends RequestOptions {
+  prompt?: string;
+  mimeType?: string;
+  detail?: "auto" | "low" | "high";
+  maxLength?: number;
+  maxTokens?: number;
+}
+
+export interface DescribeImageResult {
+  description: string;
+  tokensUsed?: number;
+  usage?: TokenUsage;
   provider?: string;
   model?: string;
+  cached?: boolean;
+  redaction?: RedactionReport;
 }
 
-export interface ChatOptions {
+export interface ChatOptions extends RequestOptions {
   temperature?: number;
   maxTokens?: number;
   stream?: boolean;
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  contextWindow?: ContextWindowOptions | false;
 }
 
-export interface ChatStreamChunk {
-  content: string;
-  done: boolean;
+export type ToolHandler = (
+  args: Record<string, any>,
+  call: ToolCall
+) => unknown | Promise<unknown>;
+
+export interface RunnableTool extends ToolDefinition {
+  handler: ToolHandler;
+}
+
+export interface RunToolsOptions extends RequestOptions {
+  tools?: RunnableTool[];
+  toolChoice?: ToolChoice;
+  maxIterations?: number;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ToolCallResult {
+  call: ToolCall;
+  output: string;
+  error?: string;
+}
+
+export interface RunToolsResult extends ChatResult {
+  messages: Message[]; // Full history, including tool calls and results
+  toolResults: ToolCallResult[];
+  iterations: number;
+}
+
+export interface GenerateObjectOptions extends RequestOptions {
+  system?: string;
+  schemaName?: string;
+  maxAttempts?: number;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface GenerateObjectResult<T> {
+  object: T;
+  attempts: number;
+  tokensUsed?: number;
+  usage?: TokenUsage;
+  provider?: string;
+  model?: string;
+  cached?: boolean;
+  redaction?: RedactionReport;
+}
+
+export interface BatchOptions extends AbortOptions {
+  concurrency?: number; // Default: 5
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+export interface BatchProgress {
+  total: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+}
+
+export type BatchItemResult<T> =
+  | { index: number; ok: true; value: T }
+  | { index: number; ok: false; error: Error };
+
+export interface BatchResult<T> {
+  items: BatchItemResult<T>[]; // In input order
+  succeeded: number;
+  failed: number;
+  tokensUsed?: number;
+  usage?: TokenUsage; // Excludes cached results
+}
+
+export type BatchJobStatus =
+  | "validating"
+  | "in_progress"
+  | "finalizing"
+  | "completed"
+  | "failed"
+  | "expired"
+  | "cancelling"
+  | "cancelled";
+
+export interface BatchJobInput extends ChatPromptInput {
+  customId?: string; // Default: "request-<index>"
+}
+
+export interface BatchJobRequest {
+  customId: string;
+  input: ChatPromptInput;
+}
+
+export interface BatchJobOptions extends AbortOptions {
+  metadata?: Record<string, string>;
+}
+
+export interface WaitForBatchJobOptions extends AbortOptions {
+  pollInterval?: number; // Default: 30000ms
+  timeout?: number; // No limit by default
+  onStatus?: (job: BatchJob) => void;
+}
+
+export interface BatchJob {
+  id: string;
+  status: BatchJobStatus;
+  provider?: string;
+  inputFileId: string;
+  outputFileId?: string;
+  errorFileId?: string;
+  requestCounts: { total: number; completed: number; failed: number };
+  createdAt: Date;
+  completedAt?: Date;
+  errors?: string[];
+}
+
+export interface BatchJobOutput {
+  customId: string;
+  result?: ChatResult;
+  error?: Error;
+}
+
+export interface BatchJobResults {
+  job: BatchJob;
+  results: Record<string, ChatResult>; // By custom ID
+  errors: Record<string, Error>;
+  tokensUsed?: number;
+  usage?: TokenUsage;
+}
+
+export interface ConversationOptions {
+  system?: string;
+  messages?: Message[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ConversationState {
+  messages: Message[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface StreamEventBase {
+  content: string; // Text delta; empty for non-text events
+  done: boolean; // True only on the last event of the stream
+  contextManagement?: ContextManagementReport; // Set on the first event when applied
+}
+
+export interface TextDeltaEvent extends StreamEventBase {
+  type?: "text"; // Providers may omit the type for text
+}
+
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments: string; // Fragment of the JSON-encoded arguments
+}
+
+export interface ToolCallDeltaEvent extends StreamEventBase {
+  type: "tool_call";
+  toolCall: ToolCallDelta;
+}
+
+export interface UsageEvent extends StreamEventBase {
+  type: "usage";
+  usage: TokenUsage;
+}
+
+export interface FinishEvent extends StreamEventBase {
+  type: "finish";
+  finishReason?: string;
+  model?: string;
+}
+
+export interface StreamErrorEvent extends StreamEventBase {
+  type: "error";
+  error: Error;
+}
+
+export type ChatStreamChunk =
+  | TextDeltaEvent
+  | ToolCallDeltaEvent
+  | UsageEvent
+  | FinishEvent
+  | StreamErrorEvent;
+
+export interface LocalModelInfo {
+  name: string;
+  size?: number;
+  modifiedAt?: string;
+  family?: string;
+  parameterSize?: string;
+}
+
+export interface EmbedInput {
+  texts: string[];
+  model?: string;
+  dimensions?: number;
+  signal?: AbortSignal;
+}
+
+export interface EmbedResult {
+  embeddings: number[][];
+  tokensUsed?: number;
+  usage?: TokenUsage;
+  provider?: string;
+  model?: string;
+  redaction?: RedactionReport; // Set when redaction is enabled
+}
+
+export interface EmbedOptions extends AbortOptions {
+  model?: string;
+  dimensions?: number;
+  batchSize?: number;
+}
+
+export interface SimilarityMatch<T> {
+  item: T;
+  index: number;
+  score: number;
 }
 
 export interface LLMProvider {
+  readonly name?: string;
+  readonly embeddingBatchSize?: number;
   chat(input: ChatPromptInput): Promise<ChatResult>;
   chatStream?(input: ChatPromptInput): AsyncIterable<ChatStreamChunk>;
+  listModels?(signal?: AbortSignal): Promise<LocalModelInfo[]>;
+  embed?(input: EmbedInput): Promise<EmbedResult>;
+  createBatchJob?(requests: BatchJobRequest[], options?: BatchJobOptions): Promise<BatchJob>;
+  getBatchJob?(id: string, signal?: AbortSignal): Promise<BatchJob>;
+  cancelBatchJob?(id: string, signal?: AbortSignal): Promise<BatchJob>;
+  getBatchJobOutput?(job: BatchJob, signal?: AbortSignal): Promise<BatchJobOutput[]>;
+}
+
+export type ProviderFactory = (config: AIClientConfig) => LLMProvider;
+
+export interface ProviderRegistrationOptions {
+  defaultModel?: string;
+  apiKeyEnv?: string[];
+  requiresApiKey?: boolean;
+}
+
+export interface ProviderRegistration extends ProviderRegistrationOptions {
+  factory: ProviderFactory;
 }
 
 export type RequestHook = (config: AIClientConfig, input: ChatPromptInput) => void;
 export type ResponseHook = (result: ChatResult) => void;
 export type ErrorHook = (error: Error) => void;
+export type BudgetHook = (event: BudgetThresholdEvent) => void;
+
+export interface MiddlewareContext {
+  operation: "chat" | "stream";
+  provider: string;
+  model?: string;
+  // Streams only: rewrites each event before it reaches the caller
+  transformChunk(transform: (chunk: ChatStreamChunk) => ChatStreamChunk): void;
+}
+
+export type MiddlewareNext = (input?: ChatPromptInput) => Promise<ChatResult>;
+
+// Calls next() to continue the chain, or returns a result to short-circuit it
+export type Middleware = (
+  input: ChatPromptInput,
+  next: MiddlewareNext,
+  context: MiddlewareContext
+) => Promise<ChatResult>;
 
@@ -1,9 +1,27 @@
+import { getApiKeyEnvNames, listProviders } from "./providers/registry";
+import {
+  AbortError,
+  AuthenticationError,
+  CircuitOpenError,
+  InvalidRequestError,
+  ProviderUnavailableError,
+  RateLimitError,
+  RetryError,
+  TimeoutError,
+} from "./errors";
 import type { AIClientConfig, ProviderName } from "./types";
 
+export function readApiKey(provider: string): string | undefined {
+  for (const envName of getApiKeyEnvNames(provider)) {
+    if (process.env[envName]) {
+      return process.env[envName];
+    }
+  }
+  return undefined;
+}
+
 export function parseEnvConfig(): Partial<AIClientConfig> {
   const provider = (process.env.AI_PROVIDER || process.env.PROVIDER) as ProviderName | undefined;
-  const openaiKey = process.env.OPENAI_API_KEY;
-  const geminiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_AI_API_KEY;
   const model = process.env.AI_MODEL || process.env.MODEL;
   const temperature = process.env.AI_TEMPERATURE
     ? parseFloat(process.env.AI_TEMPERATURE)
@@ -21,18 +39,17 @@ export function parseEnvConfig(): Partial<AIClientConfig> {
   let apiKey: string | undefined;
   let resolvedProvider: ProviderName | undefined = provider;
 
-  if (provider === "openai" && openaiKey) {
-    apiKey = openaiKey;
-  } else if (provider === "gemini" && geminiKey) {
-    apiKey = geminiKey;
-  } else if (!provider) {
-    // Auto-detect based on available keys
-    if (openaiKey) {
-      resolvedProvider = "openai";
-      apiKey = openaiKey;
-    } else if (geminiKey) {
-      resolvedProvider = "gemini";
-      apiKey = geminiKey;
+  if (provider) {
+    apiKey = readApiKey(provider);
+  } else {
+    // Auto-detect based on available keys, in registration order
+    for (const name of listProviders()) {
+      const key = readApiKey(name);
+      if (key) {
+        resolvedProvider = name;
+        apiKey = key;
+        break;
+      }
     }
   }
 
@@ -47,24 +64,50 @@ export function parseEnvConfig(): Partial<AIClientConfig> {
   };
 }
 
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
+// Expects errors already normalised by toProviderError
 export function isRetryableError(error: any): boolean {
-  if (!error) return false;
-  
-  const statusCode = error.status || error.statusCode || error.response?.status;
-  if (statusCode) {
-    // Retry on 429 (rate limit) and 5xx (server errors)
-    return statusCode === 429 || (statusCode >= 500 && statusCode < 600);
-  }
-  
-  // Retry on network errors
-  if (error.code === "ECONNRESET" || error.code === "ETIMEDOUT" || error.code === "ENOTFOUND") {
-    return true;
-  }
-  
-  return false;
+  return error instanceof RateLimitError || error instanceof ProviderUnavailableError;
 }
 
+// Errors that suggest trying a different provider rather than failing the call
+export function isProviderOutage(error: any): boolean {
+  if (error instanceof RetryError || error instanceof TimeoutError) return true;
+  if (error instanceof AuthenticationError || error instanceof CircuitOpenError) return true;
+  // A missing model on one provider says nothing about the others
+  if (error instanceof InvalidRequestError && error.statusCode === 404) return true;
+  return isRetryableError(error);
+}
+
+// Looks up a per-model value by the longest matching model-name prefix
+export function matchModelPrefix<T>(
+  table: Record<string, T>,
+  model: string | undefined
+): T | undefined {
+  if (!model) return undefined;
+
+  let bestMatch: string | undefined;
+  for (const prefix of Object.keys(table)) {
+    if (model.startsWith(prefix) && (!bestMatch || prefix.length > bestMatch.length)) {
+      bestMatch = prefix;
+    }
+  }
+  return bestMatch ? table[bestMatch] : undefined;
+}
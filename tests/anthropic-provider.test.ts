@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AIClient } from "../src/client";
+import { startStubServer, type StubServer } from "./helpers/stub-server";
+
+// Local stand-in for the Anthropic Messages API
+let server: StubServer;
+
+const streamEvents = [
+  {
+    type: "message_start",
+    message: {
+      id: "msg_2",
+      type: "message",
+      role: "assistant",
+      model: "claude-3-5-haiku-20241022",
+      content: [],
+      stop_reason: null,
+      stop_sequence: null,
+      usage: { input_tokens: 25, output_tokens: 1 },
+    },
+  },
+  { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+  { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Checking" } },
+  { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: " now." } },
+  { type: "content_block_stop", index: 0 },
+  {
+    type: "content_block_start",
+    index: 1,
+    content_block: { type: "tool_use", id: "toolu_2", name: "getWeather", input: {} },
+  },
+  { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '{"city":' } },
+  { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '"Oslo"}' } },
+  { type: "content_block_stop", index: 1 },
+  {
+    type: "message_delta",
+    delta: { stop_reason: "tool_use", stop_sequence: null },
+    usage: { output_tokens: 18 },
+  },
+  { type: "message_stop" },
+];
+
+beforeAll(async () => {
+  server = await startStubServer((request, res) => {
+    if (request.method !== "POST" || request.url !== "/v1/messages") {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+
+    if (request.body.stream) {
+      res.setHeader("Content-Type", "text/event-stream");
+      for (const event of streamEvents) {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+      res.end();
+      return;
+    }
+
+    res.setHeader("Content-Type", "application/json");
+    res.end(
+      JSON.stringify({
+        id: "msg_1",
+        type: "message",
+        role: "assistant",
+        model: "claude-3-5-haiku-20241022",
+        content: [
+          { type: "text", text: "Let me check." },
+          { type: "tool_use", id: "toolu_1", name: "getWeather", input: { city: "Paris" } },
+        ],
+        stop_reason: "tool_use",
+        stop_sequence: null,
+        usage: { input_tokens: 30, output_tokens: 12 },
+      })
+    );
+  });
+});
+
+afterAll(() => server.close());
+
+const createClient = () =>
+  new AIClient({ provider: "anthropic", apiKey: "test-key", baseUrl: server.baseUrl, maxRetries: 0 });
+
+const weatherTool = {
+  name: "getWeather",
+  description: "Current weather",
+  parameters: { type: "object", properties: { city: { type: "string" } }, required: ["city"] },
+};
+
+describe("AnthropicProvider", () => {
+  it("should map messages, tools, usage and the stop reason", async () => {
+    const result = await createClient().chat(
+      [
+        { role: "system", content: "You are terse." },
+        { role: "system", content: "Use tools for live data." },
+        { role: "user", content: "Weather in Rome and Paris?" },
+        {
+          role: "assistant",
+          content: "",
+          toolCalls: [
+            { id: "toolu_a", name: "getWeather", arguments: { city: "Rome" } },
+            { id: "toolu_b", name: "getWeather", arguments: { city: "Milan" } },
+          ],
+        },
+        { role: "tool", toolCallId: "toolu_a", name: "getWeather", content: "Sunny" },
+        { role: "tool", toolCallId: "toolu_b", name: "getWeather", content: "Rainy" },
+      ],
+      { tools: [weatherTool], toolChoice: "required", maxTokens: 200 }
+    );
+
+    const request = server.requests[server.requests.length - 1].body;
+    expect(request.system).toBe("You are terse.\nUse tools for live data.");
+    expect(request.max_tokens).toBe(200);
+    expect(request.messages).toEqual([
+      { role: "user", content: "Weather in Rome and Paris?" },
+      {
+        role: "assistant",
+        content: [
+          { type: "tool_use", id: "toolu_a", name: "getWeather", input: { city: "Rome" } },
+          { type: "tool_use", id: "toolu_b", name: "getWeather", input: { city: "Milan" } },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "toolu_a", content: "Sunny" },
+          { type: "tool_result", tool_use_id: "toolu_b", content: "Rainy" },
+        ],
+      },
+    ]);
+    expect(request.tools).toEqual([
+      {
+        name: "getWeather",
+        description: "Current weather",
+        input_schema: weatherTool.parameters,
+      },
+    ]);
+    expect(request.tool_choice).toEqual({ type: "any" });
+
+    expect(result).toMatchObject({
+      content: "Let me check.",
+      model: "claude-3-5-haiku-20241022",
+      finishReason: "tool_use",
+      tokensUsed: 42,
+      usage: { inputTokens: 30, outputTokens: 12, totalTokens: 42 },
+      toolCalls: [{ id: "toolu_1", name: "getWeather", arguments: { city: "Paris" } }],
+    });
+  });
+
+  it("should stream text, tool calls, usage and the finish event", async () => {
+    const stream = createClient().chatStream([{ role: "user", content: "Weather in Oslo?" }], {
+      tools: [weatherTool],
+    });
+
+    const events: any[] = [];
+    for await (const event of stream) {
+      events.push(event);
+    }
+    const result = await stream.finalResult();
+
+    expect(server.requests[server.requests.length - 1].body).toMatchObject({
+      stream: true,
+      max_tokens: 1024,
+    });
+    expect(events.map((event) => event.type)).toEqual([
+      "text",
+      "text",
+      "tool_call",
+      "tool_call",
+      "tool_call",
+      "usage",
+      "finish",
+    ]);
+    expect(events[2].toolCall).toEqual({ index: 1, id: "toolu_2", name: "getWeather", arguments: "" });
+    expect(events[5].usage).toEqual({ inputTokens: 25, outputTokens: 18, totalTokens: 43 });
+    expect(events[6]).toMatchObject({
+      done: true,
+      finishReason: "tool_use",
+      model: "claude-3-5-haiku-20241022",
+    });
+    expect(result).toMatchObject({
+      content: "Checking now.",
+      finishReason: "tool_use",
+      toolCalls: [{ id: "toolu_2", name: "getWeather", arguments: { city: "Oslo" } }],
+    });
+  });
+});
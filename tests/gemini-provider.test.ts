@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AIClient } from "../src/client";
+import { AIClientError } from "../src/errors";
+import { startStubServer, type StubServer } from "./helpers/stub-server";
+
+// Local stand-in for the Gemini generateContent endpoint
+let server: StubServer;
+
+beforeAll(async () => {
+  server = await startStubServer((request, res) => {
+    res.setHeader("Content-Type", "application/json");
+    if (request.method === "POST" && request.url.endsWith(":generateContent")) {
+      res.end(
+        JSON.stringify({
+          candidates: [
+            {
+              content: { role: "model", parts: [{ text: "Gemini response" }] },
+              finishReason: "STOP",
+            },
+          ],
+          usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+        })
+      );
+      return;
+    }
+    res.statusCode = 404;
+    res.end(JSON.stringify({ error: { code: 404, message: "Not found" } }));
+  });
+});
+
+afterAll(() => server.close());
+
+const createClient = () =>
+  new AIClient({
+    provider: "gemini",
+    apiKey: "test-key",
+    baseUrl: server.baseUrl,
+    model: "gemini-1.5-flash",
+    maxRetries: 0,
+  });
+
+describe("GeminiProvider", () => {
+  it("should convert tool parameters to Gemini's schema subset", async () => {
+    const result = await createClient().chat([{ role: "user", content: "Weather in Paris?" }], {
+      tools: [
+        {
+          name: "getWeather",
+          description: "Current weather",
+          parameters: {
+            type: "object",
+            properties: {
+              city: { type: "string" },
+              unit: { type: ["string", "null"], enum: ["C", "F"] },
+            },
+            required: ["city"],
+            additionalProperties: false,
+          },
+        },
+      ],
+    });
+
+    expect(result.content).toBe("Gemini response");
+    expect(server.requests[server.requests.length - 1].url).toBe("/v1beta/models/gemini-1.5-flash:generateContent");
+    expect(server.requests[server.requests.length - 1].body.tools[0].functionDeclarations[0]).toEqual({
+      name: "getWeather",
+      description: "Current weather",
+      parameters: {
+        type: "OBJECT",
+        properties: {
+          city: { type: "STRING" },
+          unit: { type: "STRING", nullable: true, enum: ["C", "F"] },
+        },
+        required: ["city"],
+      },
+    });
+  });
+
+  it("should convert image and file parts to Gemini parts", async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    await createClient().chat([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Compare these" },
+          { type: "image", data: png },
+          { type: "image", url: "data:image/gif;base64,R0lGODlh" },
+          { type: "image", url: "gs://bucket/cat.jpg", mimeType: "image/jpeg" },
+          { type: "file", data: "JVBERi0xLjQ=", mimeType: "application/pdf" },
+        ],
+      },
+    ]);
+
+    expect(server.requests[server.requests.length - 1].body.contents[0].parts).toEqual([
+      { text: "Compare these" },
+      { inlineData: { mimeType: "image/png", data: png.toString("base64") } },
+      { inlineData: { mimeType: "image/gif", data: "R0lGODlh" } },
+      { fileData: { mimeType: "image/jpeg", fileUri: "gs://bucket/cat.jpg" } },
+      { inlineData: { mimeType: "application/pdf", data: "JVBERi0xLjQ=" } },
+    ]);
+  });
+
+  it("should reject remote image URLs Gemini cannot fetch", async () => {
+    const sent = server.requests.length;
+
+    await expect(
+      createClient().chat([
+        { role: "user", content: [{ type: "image", url: "https://example.com/cat.jpg" }] },
+      ])
+    ).rejects.toThrow(AIClientError);
+    expect(server.requests.length).toBe(sent);
+  });
+});
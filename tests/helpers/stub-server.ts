@@ -0,0 +1,46 @@
+import http from "http";
+import type { AddressInfo } from "net";
+
+export interface StubRequest {
+  method: string;
+  url: string;
+  body: any; // Parsed JSON, or the raw text when the body is not JSON
+}
+
+export interface StubServer {
+  baseUrl: string; // http://127.0.0.1:<port>, without a path
+  requests: StubRequest[];
+  close: () => Promise<void>;
+}
+
+// Local stand-in for a provider API; the handler answers each request once its body has arrived
+export async function startStubServer(
+  handler: (request: StubRequest, res: http.ServerResponse) => void
+): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let text = "";
+    req.on("data", (chunk) => (text += chunk));
+    req.on("end", () => {
+      const request = { method: req.method || "GET", url: req.url || "/", body: parseBody(text) };
+      requests.push(request);
+      handler(request, res);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+function parseBody(text: string): any {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AIClient } from "../src/client";
+import { AIClientError } from "../src/errors";
+import { startStubServer, type StubServer } from "./helpers/stub-server";
+
+// Local stand-in for an Ollama server
+let server: StubServer;
+
+beforeAll(async () => {
+  server = await startStubServer((request, res) => {
+    if (request.url === "/api/tags") {
+      res.setHeader("Content-Type", "application/json");
+      res.end(
+        JSON.stringify({
+          models: [
+            {
+              name: "llama3.1:latest",
+              size: 4661224676,
+              modified_at: "2024-08-01T00:00:00Z",
+              details: { family: "llama", parameter_size: "8.0B" },
+            },
+          ],
+        })
+      );
+      return;
+    }
+
+    if (request.url === "/api/chat" && request.body.model === "missing") {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: "model 'missing' not found" }));
+      return;
+    }
+
+    if (request.url === "/api/chat" && request.body.stream) {
+      res.setHeader("Content-Type", "application/x-ndjson");
+      res.write(JSON.stringify({ message: { role: "assistant", content: "Hello" }, done: false }) + "\n");
+      // Split a line across writes to exercise buffering
+      const last = JSON.stringify({ message: { role: "assistant", content: " world" }, done: false }) + "\n";
+      res.write(last.slice(0, 10));
+      res.write(last.slice(10));
+      res.end(
+        JSON.stringify({
+          model: request.body.model,
+          message: { role: "assistant", content: "" },
+          done: true,
+          done_reason: "stop",
+          prompt_eval_count: 5,
+          eval_count: 2,
+        }) + "\n"
+      );
+      return;
+    }
+
+    if (request.url === "/api/chat") {
+      res.setHeader("Content-Type", "application/json");
+      res.end(
+        JSON.stringify({
+          model: request.body.model,
+          message: { role: "assistant", content: "Local response" },
+          done: true,
+          done_reason: "stop",
+          prompt_eval_count: 12,
+          eval_count: 8,
+        })
+      );
+      return;
+    }
+
+    res.statusCode = 404;
+    res.end();
+  });
+});
+
+afterAll(() => server.close());
+
+describe("Ollama provider", () => {
+  it("should not require an API key", () => {
+    const client = new AIClient({ provider: "ollama", baseUrl: server.baseUrl });
+    expect(client).toBeInstanceOf(AIClient);
+  });
+
+  it("should chat through the native chat API", async () => {
+    const client = new AIClient({ provider: "ollama", baseUrl: server.baseUrl, maxTokens: 64 });
+
+    const result = await client.chat([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Hi" },
+    ]);
+
+    expect(result.content).toBe("Local response");
+    expect(result.tokensUsed).toBe(20);
+    expect(result.model).toBe("llama3.1");
+    expect(result.provider).toBe("ollama");
+    expect(result.finishReason).toBe("stop");
+
+    const request = server.requests.filter((r) => r.url === "/api/chat").pop();
+    expect(request.body.stream).toBe(false);
+    expect(request.body.messages).toHaveLength(2);
+    expect(request.body.options).toEqual({ temperature: 0.7, num_predict: 64 });
+  });
+
+  it("should send images as base64 data", async () => {
+    const client = new AIClient({ provider: "ollama", baseUrl: server.baseUrl, model: "llava" });
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    await client.chat([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What is this?" },
+          { type: "image", data: png },
+        ],
+      },
+    ]);
+
+    const request = server.requests.filter((r) => r.url === "/api/chat").pop();
+    expect(request.body.messages[0].content).toBe("What is this?");
+    expect(request.body.messages[0].images).toEqual([png.toString("base64")]);
+  });
+
+  it("should stream NDJSON responses", async () => {
+    const client = new AIClient({ provider: "ollama", baseUrl: server.baseUrl });
+
+    const stream = client.chatStream([{ role: "user", content: "Hi" }]);
+    const chunks: { content: string; done: boolean }[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map((c) => c.content).join("")).toBe("Hello world");
+    expect(chunks[chunks.length - 1].done).toBe(true);
+    expect(chunks.slice(0, -1).every((c) => !c.done)).toBe(true);
+
+    const result = await stream.finalResult();
+    expect(result).toMatchObject({
+      content: "Hello world",
+      finishReason: "stop",
+      model: "llama3.1",
+      usage: { inputTokens: 5, outputTokens: 2, totalTokens: 7 },
+    });
+  });
+
+  it("should list local models", async () => {
+    const client = new AIClient({ provider: "ollama", baseUrl: server.baseUrl });
+
+    const models = await client.listModels();
+    expect(models).toEqual([
+      {
+        name: "llama3.1:latest",
+        size: 4661224676,
+        modifiedAt: "2024-08-01T00:00:00Z",
+        family: "llama",
+        parameterSize: "8.0B",
+      },
+    ]);
+  });
+
+  it("should surface HTTP errors with a status code", async () => {
+    const client = new AIClient({
+      provider: "ollama",
+      baseUrl: server.baseUrl,
+      model: "missing",
+      maxRetries: 0,
+    });
+
+    const error = await client.chat([{ role: "user", content: "Hi" }]).catch((e) => e);
+    expect(error).toBeInstanceOf(AIClientError);
+    expect(error.statusCode).toBe(404);
+    expect(error.message).toContain("not found");
+  });
+});
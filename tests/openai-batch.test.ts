@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { AIClient } from "../src/client";
+import { AIClientError, AbortError, TimeoutError } from "../src/errors";
+import { PROMPT_TEMPLATES } from "../src/prompts/presets";
+import { startStubServer, type StubServer } from "./helpers/stub-server";
+
+// Local stand-in for the OpenAI files and batches endpoints
+let server: StubServer;
+const uploads: any[][] = [];
+const batches = new Map<string, { inputFileId: string; polls: number; stuck: boolean }>();
+// Requests for this job never get a response; counts connections the client gave up on
+const HANGING_JOB = "batch_hang";
+let abandoned = 0;
+
+function batchObject(id: string) {
+  const batch = batches.get(id)!;
+  const done = !batch.stuck && batch.polls > 1;
+  return {
+    id,
+    object: "batch",
+    endpoint: "/v1/chat/completions",
+    input_file_id: batch.inputFileId,
+    completion_window: "24h",
+    status: done ? "completed" : batch.polls === 0 ? "validating" : "in_progress",
+    created_at: 1_700_000_000,
+    completed_at: done ? 1_700_000_600 : undefined,
+    output_file_id: done ? `${batch.inputFileId}-output` : undefined,
+    error_file_id: done ? `${batch.inputFileId}-errors` : undefined,
+    request_counts: { total: 3, completed: done ? 2 : 0, failed: done ? 1 : 0 },
+  };
+}
+
+function outputFile(fileId: string): string {
+  const lines = uploads[Number(fileId.split("-")[1])];
+  const succeeded = fileId.endsWith("-output");
+  return lines
+    .filter((line) => (line.custom_id !== "broken") === succeeded)
+    .map((line) =>
+      JSON.stringify(
+        succeeded
+          ? {
+              id: `response-${line.custom_id}`,
+              custom_id: line.custom_id,
+              response: {
+                status_code: 200,
+                body: {
+                  id: "chatcmpl-1",
+                  object: "chat.completion",
+                  created: 1_700_000_000,
+                  model: "gpt-4o-mini-2024-07-18",
+                  choices: [
+                    {
+                      index: 0,
+                      message: { role: "assistant", content: `Answer for ${line.custom_id}` },
+                      finish_reason: "stop",
+                    },
+                  ],
+                  usage: { prompt_tokens: 1_000_000, completion_tokens: 0, total_tokens: 1_000_000 },
+                },
+              },
+              error: null,
+            }
+          : {
+              id: `response-${line.custom_id}`,
+              custom_id: line.custom_id,
+              response: {
+                status_code: 400,
+                body: { error: { message: "Invalid request body" } },
+              },
+              error: null,
+            }
+      )
+    )
+    .join("\n");
+}
+
+beforeAll(async () => {
+  server = await startStubServer((request, res) => {
+    if (request.url.includes(HANGING_JOB)) {
+      res.on("close", () => abandoned++);
+      return;
+    }
+
+    res.setHeader("Content-Type", "application/json");
+
+    if (request.method === "POST" && request.url === "/v1/files") {
+      // Pull the JSONL lines out of the multipart upload
+      const lines: string[] = request.body.match(/^\{"custom_id".*$/gm) || [];
+      uploads.push(lines.map((line) => JSON.parse(line.trim())));
+      const id = `file-${uploads.length - 1}`;
+      res.end(JSON.stringify({ id, object: "file", purpose: "batch", filename: "batch.jsonl" }));
+      return;
+    }
+
+    if (request.method === "POST" && request.url === "/v1/batches") {
+      const id = `batch_${batches.size}`;
+      batches.set(id, {
+        inputFileId: request.body.input_file_id,
+        polls: 0,
+        stuck: request.body.metadata?.stuck === "true",
+      });
+      res.end(JSON.stringify(batchObject(id)));
+      return;
+    }
+
+    const batchMatch = request.url.match(/^\/v1\/batches\/([^/]+)$/);
+    if (request.method === "GET" && batchMatch && batches.has(batchMatch[1])) {
+      batches.get(batchMatch[1])!.polls++;
+      res.end(JSON.stringify(batchObject(batchMatch[1])));
+      return;
+    }
+
+    const fileMatch = request.url.match(/^\/v1\/files\/([^/]+)\/content$/);
+    if (request.method === "GET" && fileMatch) {
+      res.setHeader("Content-Type", "application/jsonl");
+      res.end(outputFile(fileMatch[1]));
+      return;
+    }
+
+    res.statusCode = 404;
+    res.end(JSON.stringify({ error: { message: "Not found" } }));
+  });
+});
+
+afterAll(() => server.close());
+
+describe("OpenAI batch jobs", () => {
+  const createClient = () =>
+    new AIClient({
+      provider: "openai",
+      apiKey: "test-key",
+      baseUrl: `${server.baseUrl}/v1`,
+      model: "gpt-4o-mini",
+    });
+
+  it("should submit inputs as JSONL and map results back by custom ID", async () => {
+    const client = createClient();
+    const statuses: string[] = [];
+
+    const results = await client.runBatchJob(
+      [
+        {
+          customId: "summary",
+          messages: PROMPT_TEMPLATES.summarize("Long text"),
+        },
+        { messages: [{ role: "user", content: "Hello" }], maxTokens: 20 },
+        { customId: "broken", messages: [{ role: "user", content: "Bad" }] },
+      ],
+      { pollInterval: 5, onStatus: (job) => statuses.push(job.status), metadata: { run: "nightly" } }
+    );
+
+    const lines = uploads[uploads.length - 1];
+    expect(lines.map((line) => line.custom_id)).toEqual(["summary", "request-1", "broken"]);
+    expect(lines[1]).toMatchObject({
+      method: "POST",
+      url: "/v1/chat/completions",
+      body: {
+        model: "gpt-4o-mini",
+        messages: [{ role: "user", content: "Hello" }],
+        temperature: 0.7,
+        max_tokens: 20,
+      },
+    });
+
+    expect(statuses).toEqual(["in_progress", "completed"]);
+    expect(results.job.status).toBe("completed");
+    expect(Object.keys(results.results).sort()).toEqual(["request-1", "summary"]);
+    expect(results.results.summary).toMatchObject({
+      content: "Answer for summary",
+      provider: "openai",
+      model: "gpt-4o-mini-2024-07-18",
+      finishReason: "stop",
+    });
+    expect(results.errors.broken).toBeInstanceOf(AIClientError);
+    expect(results.errors.broken.message).toBe("Invalid request body");
+
+    // Billed at half the live price of $0.15 per million input tokens
+    expect(results.usage?.totalTokens).toBe(2_000_000);
+    expect(results.usage?.cost).toBeCloseTo(0.15);
+    expect(client.getUsage()).toMatchObject({ requests: 2, totalTokens: 2_000_000 });
+  });
+
+  it("should let jobs be submitted and collected separately", async () => {
+    const client = createClient();
+
+    const job = await client.submitBatchJob([{ messages: [{ role: "user", content: "Hi" }] }]);
+    expect(job).toMatchObject({ status: "validating", provider: "openai" });
+    expect(job.createdAt).toEqual(new Date(1_700_000_000_000));
+
+    await client.waitForBatchJob(job.id, { pollInterval: 5 });
+    const results = await client.getBatchJobResults(job.id);
+    expect(results.results["request-0"].content).toBe("Answer for request-0");
+
+    // Collecting the job again returns the same usage without counting it twice
+    const totals = client.getUsage();
+    const again = await client.getBatchJobResults(job.id);
+    expect(again.usage).toEqual(results.usage);
+    expect(client.getUsage()).toEqual(totals);
+  });
+
+  it("should time out while waiting for a job", async () => {
+    const client = createClient();
+
+    const job = await client.submitBatchJob([{ messages: [{ role: "user", content: "Hi" }] }], {
+      metadata: { stuck: "true" },
+    });
+    const error = await client
+      .waitForBatchJob(job.id, { pollInterval: 20, timeout: 50 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+  });
+
+  it("should abort batch job requests on timeout and cancellation", async () => {
+    const client = new AIClient({
+      provider: "openai",
+      apiKey: "test-key",
+      baseUrl: `${server.baseUrl}/v1`,
+      timeout: 50,
+      maxRetries: 0,
+    });
+
+    await expect(client.getBatchJob(HANGING_JOB)).rejects.toBeInstanceOf(TimeoutError);
+    await vi.waitFor(() => expect(abandoned).toBe(1));
+
+    const controller = new AbortController();
+    const cancelling = client.cancelBatchJob(HANGING_JOB, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+    await expect(cancelling).rejects.toBeInstanceOf(AbortError);
+    await vi.waitFor(() => expect(abandoned).toBe(2));
+  });
+
+  it("should reject duplicate custom IDs", async () => {
+    const client = createClient();
+
+    await expect(
+      client.submitBatchJob([
+        { customId: "same", messages: [{ role: "user", content: "One" }] },
+        { customId: "same", messages: [{ role: "user", content: "Two" }] },
+      ])
+    ).rejects.toThrow("custom IDs must be unique");
+  });
+
+  it("should report providers without batch support", async () => {
+    const client = new AIClient({ provider: { name: "double", chat: async () => ({ content: "" }) } });
+
+    await expect(
+      client.submitBatchJob([{ messages: [{ role: "user", content: "Hi" }] }])
+    ).rejects.toThrow("Batch jobs not supported by this provider");
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { AIClient } from "../src/client";
+import { startStubServer, type StubServer } from "./helpers/stub-server";
+
+// Local stand-in for the OpenAI chat completions endpoint
+let server: StubServer;
+let reply: any;
+
+function completion(message: object, finishReason = "stop") {
+  return {
+    id: "chatcmpl-1",
+    object: "chat.completion",
+    created: 1_700_000_000,
+    model: "gpt-4o-mini-2024-07-18",
+    choices: [{ index: 0, message: { role: "assistant", ...message }, finish_reason: finishReason }],
+    usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 },
+  };
+}
+
+beforeAll(async () => {
+  server = await startStubServer((request, res) => {
+    res.setHeader("Content-Type", "application/json");
+    if (request.method === "POST" && request.url === "/v1/chat/completions") {
+      res.end(JSON.stringify(Array.isArray(reply) ? reply.shift() : reply));
+      return;
+    }
+    res.statusCode = 404;
+    res.end(JSON.stringify({ error: { message: "Not found" } }));
+  });
+});
+
+afterAll(() => server.close());
+
+const createClient = () =>
+  new AIClient({
+    provider: "openai",
+    apiKey: "test-key",
+    baseUrl: `${server.baseUrl}/v1`,
+    model: "gpt-4o-mini",
+    maxRetries: 0,
+  });
+
+describe("OpenAIProvider", () => {
+  it("should refuse to run tool calls cut off by the length limit", async () => {
+    const truncated = completion(
+      {
+        content: null,
+        tool_calls: [
+          {
+            id: "call_1",
+            type: "function",
+            function: { name: "getWeather", arguments: '{"city": "Par' },
+          },
+        ],
+      },
+      "length"
+    );
+    reply = [truncated, truncated, completion({ content: "The request was cut off." })];
+    const client = createClient();
+
+    const result = await client.chat([{ role: "user", content: "Weather in Paris?" }]);
+
+    expect(result.finishReason).toBe("length");
+    expect(result.toolCalls).toEqual([
+      { id: "call_1", name: "getWeather", arguments: {}, rawArguments: '{"city": "Par' },
+    ]);
+
+    const handler = vi.fn();
+    const run = await client.runTools([{ role: "user", content: "Weather in Paris?" }], {
+      tools: [{ name: "getWeather", handler }],
+    });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(run.toolResults[0].error).toBe(
+      "Arguments for getWeather were cut off by the output token limit"
+    );
+    expect(server.requests[server.requests.length - 1].body.messages[2]).toMatchObject({
+      role: "tool",
+      tool_call_id: "call_1",
+      content: "Error: Arguments for getWeather were cut off by the output token limit",
+    });
+  });
+
+  it("should convert image and file parts to content parts", async () => {
+    reply = completion({ content: "Described" });
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    await createClient().chat([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Compare these" },
+          { type: "image", url: "https://example.com/cat.jpg", detail: "low" },
+          { type: "image", data: png },
+          { type: "file", data: Buffer.from("%PDF-1.4"), mimeType: "application/pdf", filename: "report.pdf" },
+        ],
+      },
+    ]);
+
+    expect(server.requests[server.requests.length - 1].body.messages[0].content).toEqual([
+      { type: "text", text: "Compare these" },
+      { type: "image_url", image_url: { url: "https://example.com/cat.jpg", detail: "low" } },
+      { type: "image_url", image_url: { url: `data:image/png;base64,${png.toString("base64")}` } },
+      {
+        type: "file",
+        file: {
+          filename: "report.pdf",
+          file_data: `data:application/pdf;base64,${Buffer.from("%PDF-1.4").toString("base64")}`,
+        },
+      },
+    ]);
+  });
+});
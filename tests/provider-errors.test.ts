@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { GoogleGenerativeAIResponseError } from "@google/generative-ai";
+import { createProviderError, toProviderError } from "../src/provider-errors";
+import {
+  AIClientError,
+  AuthenticationError,
+  ContentFilteredError,
+  ContextLengthExceededError,
+  InvalidRequestError,
+  ProviderUnavailableError,
+  RateLimitError,
+  TimeoutError,
+} from "../src/errors";
+import { isRetryableError } from "../src/utils";
+
+// Shaped like the APIError classes of the OpenAI and Anthropic SDKs
+function apiError(status: number, message: string, body?: object, headers: object = {}) {
+  return Object.assign(new Error(message), { status, error: body, headers });
+}
+
+describe("toProviderError", () => {
+  it("should keep the provider, status code, request ID and body", () => {
+    const body = { message: "Incorrect API key provided", type: "invalid_request_error" };
+    const error = toProviderError(
+      apiError(401, "Incorrect API key provided", body, { "x-request-id": "req_123" }),
+      "openai"
+    );
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error).toMatchObject({
+      provider: "openai",
+      statusCode: 401,
+      requestId: "req_123",
+      body,
+    });
+    expect((error as AIClientError).originalError?.message).toBe("Incorrect API key provided");
+  });
+
+  it("should read the retry delay from rate limit responses", () => {
+    const error = toProviderError(
+      apiError(429, "Rate limit reached", { type: "rate_limit_error" }, { "retry-after": "2" }),
+      "anthropic"
+    );
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(2000);
+  });
+
+  it("should recognise context length and content filter errors", () => {
+    expect(
+      toProviderError(
+        apiError(400, "This model's maximum context length is 8192 tokens", {
+          code: "context_length_exceeded",
+        })
+      )
+    ).toBeInstanceOf(ContextLengthExceededError);
+    expect(
+      toProviderError(
+        apiError(400, "400 {\"type\":\"error\"}", {
+          type: "error",
+          error: { type: "invalid_request_error", message: "prompt is too long: 210000 tokens" },
+        })
+      )
+    ).toBeInstanceOf(ContextLengthExceededError);
+    expect(
+      toProviderError(apiError(400, "The response was filtered", { code: "content_filter" }))
+    ).toBeInstanceOf(ContentFilteredError);
+    expect(
+      toProviderError(
+        new GoogleGenerativeAIResponseError("Candidate was blocked due to SAFETY", {}),
+        "gemini"
+      )
+    ).toBeInstanceOf(ContentFilteredError);
+  });
+
+  it("should classify the remaining statuses", () => {
+    expect(toProviderError(apiError(400, "Invalid 'messages'"))).toBeInstanceOf(InvalidRequestError);
+    expect(toProviderError(apiError(404, "Model not found"))).toBeInstanceOf(InvalidRequestError);
+    expect(toProviderError(apiError(529, "Overloaded"))).toBeInstanceOf(ProviderUnavailableError);
+    expect(toProviderError(apiError(503, "Unavailable"))).toBeInstanceOf(ProviderUnavailableError);
+    expect(
+      toProviderError(Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }))
+    ).toBeInstanceOf(ProviderUnavailableError);
+  });
+
+  it("should leave other errors untouched", () => {
+    const timeout = new TimeoutError("Request timed out after 10ms");
+    const bug = new TypeError("Cannot read properties of undefined");
+
+    expect(toProviderError(timeout)).toBe(timeout);
+    expect(toProviderError(bug)).toBe(bug);
+  });
+});
+
+describe("isRetryableError", () => {
+  it("should only retry rate limits and unavailable providers", () => {
+    expect(isRetryableError(createProviderError("Slow down", { statusCode: 429 }))).toBe(true);
+    expect(isRetryableError(createProviderError("Down", { statusCode: 500 }))).toBe(true);
+    expect(isRetryableError(createProviderError("Bad key", { statusCode: 401 }))).toBe(false);
+    expect(isRetryableError(createProviderError("Bad input", { statusCode: 400 }))).toBe(false);
+    expect(isRetryableError(new Error("Unknown"))).toBe(false);
+  });
+});
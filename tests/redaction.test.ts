@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { Redactor } from "../src/redaction";
+
+describe("Redactor", () => {
+  it("should replace each kind of PII with a placeholder", () => {
+    const redactor = new Redactor();
+    const text =
+      "Mail jane.doe@example.com or call +44 20 7946 0958. " +
+      "Card 4111 1111 1111 1111, IBAN DE89 3704 0044 0532 0130 00.";
+
+    expect(redactor.redact(text)).toBe(
+      "Mail [EMAIL_1] or call [PHONE_1]. Card [CREDIT_CARD_1], IBAN [IBAN_1]."
+    );
+    expect(redactor.report()).toEqual({
+      count: 4,
+      items: [
+        { type: "email", placeholder: "[EMAIL_1]", occurrences: 1 },
+        { type: "iban", placeholder: "[IBAN_1]", occurrences: 1 },
+        { type: "creditCard", placeholder: "[CREDIT_CARD_1]", occurrences: 1 },
+        { type: "phone", placeholder: "[PHONE_1]", occurrences: 1 },
+      ],
+    });
+  });
+
+  it("should leave look-alikes untouched", () => {
+    const redactor = new Redactor();
+    const text = "Order 4111 1111 1111 1112 shipped on 2024-01-15 for 1,250.00 EUR.";
+
+    expect(redactor.redact(text)).toBe(text);
+    expect(redactor.report().count).toBe(0);
+  });
+
+  it("should keep placeholders stable and restore the originals", () => {
+    const redactor = new Redactor();
+
+    expect(redactor.redact("From a@example.com to b@example.com")).toBe(
+      "From [EMAIL_1] to [EMAIL_2]"
+    );
+    expect(redactor.redact("Reply to a@example.com")).toBe("Reply to [EMAIL_1]");
+    expect(redactor.report().items[0].occurrences).toBe(2);
+    expect(redactor.restore("Sent to [EMAIL_2], not [EMAIL_3]")).toBe(
+      "Sent to b@example.com, not [EMAIL_3]"
+    );
+  });
+
+  it("should support selected types and custom patterns", () => {
+    const redactor = new Redactor({
+      types: ["email"],
+      patterns: [{ type: "employeeId", pattern: /EMP-\d{5}/ }],
+    });
+
+    expect(redactor.redact("EMP-12345 and EMP-67890 at +1 415 555 0100, x@y.io")).toBe(
+      "[EMPLOYEE_ID_1] and [EMPLOYEE_ID_2] at +1 415 555 0100, [EMAIL_1]"
+    );
+  });
+
+  it("should restore placeholders split across stream deltas", () => {
+    const redactor = new Redactor();
+    redactor.redact("jane@example.com");
+
+    const deltas = ["Write to [EM", "AIL", "_1] today [", "see notes]"].map((delta) =>
+      redactor.restoreDelta(delta)
+    );
+
+    expect(deltas).toEqual(["Write to ", "", "jane@example.com today ", "[see notes]"]);
+    expect(redactor.restoreDelta("Bye [EMAIL")).toBe("Bye ");
+    expect(redactor.flush()).toBe("[EMAIL");
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { CircuitBreaker, RetryBudget, computeRetryDelay } from "../src/retry";
+import { CircuitOpenError, InvalidRequestError, ProviderUnavailableError } from "../src/errors";
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("computeRetryDelay", () => {
+  const options = { baseDelay: 100, maxDelay: 1000, jitter: "none" as const };
+
+  it("should back off exponentially up to the maximum delay", () => {
+    expect([0, 1, 2, 3, 4].map((attempt) => computeRetryDelay(attempt, undefined, options))).toEqual([
+      100, 200, 400, 800, 1000,
+    ]);
+  });
+
+  it("should randomise delays with jitter", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect(computeRetryDelay(3, undefined, { ...options, jitter: "full" })).toBe(400);
+    // Decorrelated jitter draws between the base delay and three times the previous one
+    expect(computeRetryDelay(1, 200, { ...options, jitter: "decorrelated" })).toBe(350);
+    expect(computeRetryDelay(1, 900, { ...options, jitter: "decorrelated" })).toBe(1000);
+  });
+});
+
+describe("RetryBudget", () => {
+  it("should allow a limited number of retries per window", () => {
+    vi.useFakeTimers();
+    const budget = new RetryBudget({ maxRetries: 2, window: 1000 });
+
+    expect([budget.tryAcquire(), budget.tryAcquire(), budget.tryAcquire()]).toEqual([
+      true,
+      true,
+      false,
+    ]);
+
+    vi.advanceTimersByTime(1001);
+    expect(budget.tryAcquire()).toBe(true);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  const outage = () => new ProviderUnavailableError("Service unavailable");
+
+  it("should open after consecutive failures and probe once the reset timeout passes", () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 });
+
+    breaker.record(outage());
+    expect(breaker.state).toBe("closed");
+    breaker.record(outage());
+    expect(breaker.state).toBe("open");
+    expect(() => breaker.acquire("openai")).toThrow(CircuitOpenError);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state).toBe("half-open");
+    breaker.acquire("openai");
+    // Only one probe at a time
+    expect(() => breaker.acquire("openai")).toThrow(CircuitOpenError);
+
+    breaker.record();
+    expect(breaker.state).toBe("closed");
+    expect(() => breaker.acquire("openai")).not.toThrow();
+  });
+
+  it("should reopen when the probe fails", () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+
+    breaker.record(outage());
+    vi.advanceTimersByTime(1000);
+    breaker.acquire();
+    breaker.record(outage());
+
+    expect(breaker.state).toBe("open");
+  });
+
+  it("should not count rejected requests as failures", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    breaker.record(outage());
+    breaker.record(new InvalidRequestError("Bad request", { statusCode: 400 }));
+    breaker.record(outage());
+
+    expect(breaker.state).toBe("closed");
+  });
+});
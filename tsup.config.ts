@@ -8,6 +8,6 @@ export default defineConfig({
   sourcemap: true,
   clean: true,
   treeshake: true,
-  external: ["openai", "@google/generative-ai"],
+  external: ["openai", "@google/generative-ai", "@anthropic-ai/sdk"],
 });
 